@@ -29,27 +29,61 @@ type BuiltInValidationAttr =
   | "maxLength"
   | "min"
   | "max"
+  | "step"
   | "pattern";
 
 // Dynamic attribute value function to set validation attribute based on
 // a current input value
 type BuiltInValidationAttrsFunction<T> = (fd: FormData) => T | null | undefined;
 
+/**
+ * Serializable alternative to a dynamic attribute function.  Either the
+ * current value of another input (`{ ref: "low" }`) or a conditional value
+ * (`{ if: { field: "country", eq: "US" }, then: true }`).  Attributes
+ * evaluating to null or undefined are not applied.
+ */
+export type AttrExpression<T> =
+  | { ref: string }
+  | {
+      if: AttrCondition;
+      then: T | AttrExpression<T>;
+      else?: T | AttrExpression<T>;
+    };
+
+/**
+ * Condition on the current value(s) of an input.  With only a `field`, the
+ * condition passes when the input has a non-empty value.
+ */
+export type AttrCondition =
+  | { field: string; eq?: string; ne?: string; in?: string[] }
+  | { and: AttrCondition[] }
+  | { or: AttrCondition[] }
+  | { not: AttrCondition };
+
 // Types accepted for validation attributes
 type BuiltInValidationAttrString =
   | string
-  | BuiltInValidationAttrsFunction<string>;
+  | BuiltInValidationAttrsFunction<string>
+  | AttrExpression<string>;
 type BuiltInValidationAttrNumber =
   | number
-  | BuiltInValidationAttrsFunction<number>;
+  | BuiltInValidationAttrsFunction<number>
+  | AttrExpression<number>;
 type BuiltInValidationAttrBoolean =
   | boolean
-  | BuiltInValidationAttrsFunction<boolean>;
+  | BuiltInValidationAttrsFunction<boolean>
+  | AttrExpression<boolean>;
+type BuiltInValidationAttrStep =
+  | number
+  | "any"
+  | BuiltInValidationAttrsFunction<number | "any">
+  | AttrExpression<number | "any">;
 
 type BuiltInValidationAttrValue =
   | BuiltInValidationAttrString
   | BuiltInValidationAttrNumber
-  | BuiltInValidationAttrBoolean;
+  | BuiltInValidationAttrBoolean
+  | BuiltInValidationAttrStep;
 
 // Valid attributes by input type.  See:
 // https://html.spec.whatwg.org/multipage/input.html#do-not-apply
@@ -75,6 +109,7 @@ type InputDateValidationAttrs = {
   required?: BuiltInValidationAttrBoolean;
   min?: BuiltInValidationAttrString;
   max?: BuiltInValidationAttrString;
+  step?: BuiltInValidationAttrStep;
 };
 
 type InputNumberValidationAttrs = {
@@ -82,12 +117,14 @@ type InputNumberValidationAttrs = {
   required?: BuiltInValidationAttrBoolean;
   min?: BuiltInValidationAttrNumber;
   max?: BuiltInValidationAttrNumber;
+  step?: BuiltInValidationAttrStep;
 };
 
 type InputRangeValidationAttrs = {
   type: "range";
   min?: BuiltInValidationAttrNumber;
   max?: BuiltInValidationAttrNumber;
+  step?: BuiltInValidationAttrStep;
 };
 
 type InputCheckboxValidationAttrs = {
@@ -100,6 +137,22 @@ type InputRadioValidationAttrs = {
   required?: BuiltInValidationAttrBoolean;
 };
 
+type InputColorValidationAttrs = {
+  type: "color";
+};
+
+type InputFileValidationAttrs = {
+  type: "file";
+  required?: BuiltInValidationAttrBoolean;
+  accept?: BuiltInValidationAttrString;
+  multiple?: boolean;
+  // Library-level validations, not rendered as HTML attributes.  Sizes are
+  // in bytes and apply to each selected file.
+  maxSize?: BuiltInValidationAttrNumber;
+  minSize?: BuiltInValidationAttrNumber;
+  maxFiles?: BuiltInValidationAttrNumber;
+};
+
 type TextAreaValidationAttrs = {
   required?: BuiltInValidationAttrBoolean;
   minLength?: BuiltInValidationAttrNumber;
@@ -118,29 +171,117 @@ type InputValidationAttrs =
   | InputNumberValidationAttrs
   | InputRangeValidationAttrs
   | InputCheckboxValidationAttrs
-  | InputRadioValidationAttrs;
+  | InputRadioValidationAttrs
+  | InputColorValidationAttrs
+  | InputFileValidationAttrs;
 
 type ValidityStateKey = KeyOf<
   Pick<
     ValidityState,
+    | "badInput"
     | "typeMismatch"
     | "valueMissing"
     | "tooShort"
     | "tooLong"
     | "rangeUnderflow"
     | "rangeOverflow"
+    | "stepMismatch"
     | "patternMismatch"
   >
 >;
 
+/**
+ * File validations have no browser built-in equivalent (the browser doesn't
+ * enforce `accept`), so we run them ourselves on the client and server
+ */
+type FileValidationAttr = "accept" | "maxSize" | "minSize" | "maxFiles";
+
+type FileValidityStateKey =
+  | "fileTypeMismatch"
+  | "fileTooLarge"
+  | "fileTooSmall"
+  | "tooManyFiles";
+
+/**
+ * Metadata for a submitted file.  Files themselves can't be round-tripped
+ * back to the client, so this is what we expose in submittedValues.
+ */
+export interface FileInfo {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+}
+
 /**
  * Custom validation function
  */
+export type CustomValidationFunction = (
+  val: string,
+  formData?: FormData,
+  context?: CustomValidationContext
+) => CustomValidationResult | Promise<CustomValidationResult>;
+
+/**
+ * Custom validations can return a failure object in place of `false` to
+ * provide their own error message and/or additional data about the failure
+ */
+export interface CustomValidationFailure {
+  valid: false;
+  message?: string;
+  data?: unknown;
+}
+
+export type CustomValidationResult = boolean | CustomValidationFailure;
+
+/**
+ * Custom validation function with additional client-side settings
+ */
+export interface CustomValidationConfig {
+  validate: CustomValidationFunction;
+  // Milliseconds to wait after the latest value change before validating
+  debounce?: number;
+  // Minimum milliseconds between validations while the value is changing
+  throttle?: number;
+  // Opt into caching results for previously validated values
+  cache?: boolean | CustomValidationCacheConfig;
+  // Whether validate returns a Promise, in which case the input-level
+  // debounce/throttle apply.  Otherwise they apply once it has returned one.
+  async?: boolean;
+  // Warnings are surfaced to the user but do not impact the input's validity
+  // or block form submission
+  severity?: CustomValidationSeverity;
+}
+
+export type CustomValidationSeverity = "error" | "warning";
+
+/**
+ * Settings for caching custom validation results
+ */
+export interface CustomValidationCacheConfig {
+  // Names of other inputs whose values this validation depends on
+  dependencies?: string[];
+  // Milliseconds until a cached result expires
+  ttl?: number;
+  // Maximum number of cached results for this validation
+  maxSize?: number;
+}
+
+export type CustomValidation =
+  | CustomValidationFunction
+  | CustomValidationConfig;
+
 export interface CustomValidations {
-  [key: string]: (
-    val: string,
-    formData?: FormData
-  ) => boolean | Promise<boolean>;
+  [key: string]: CustomValidation;
+}
+
+/**
+ * Additional information provided to custom validations
+ */
+export interface CustomValidationContext {
+  // Aborted when the validation is superseded (client) or the request is
+  // aborted (server), so async validations can cancel in-flight work
+  signal?: AbortSignal;
 }
 
 /**
@@ -150,14 +291,68 @@ export type ErrorMessage =
   | string
   | ((attrValue: string | undefined, name: string, value: string) => string);
 
+/**
+ * Localized message.  Strings can use "{attr}", "{name}" and "{value}"
+ * placeholders, and plural forms are selected by the attribute value (i.e.,
+ * the minLength for a tooShort message).
+ */
+export type CatalogMessage = ErrorMessage | PluralMessage;
+
+export type PluralMessage = Partial<
+  Record<"zero" | "one" | "two" | "few" | "many", string>
+> & { other: string };
+
+/**
+ * Messages for a single locale, keyed by validation key and optionally by
+ * input name
+ */
+export interface MessageCatalog {
+  messages?: {
+    [key: string]: CatalogMessage;
+  };
+  inputs?: {
+    [inputName: string]: {
+      [key: string]: CatalogMessage;
+    };
+  };
+}
+
+/**
+ * Message catalogs keyed by locale (i.e., "fr" or "fr-CA")
+ */
+export interface MessageCatalogs {
+  [locale: string]: MessageCatalog;
+}
+
+// Locale and catalogs used to resolve messages
+interface Localization {
+  locale?: string;
+  messages?: MessageCatalogs;
+}
+
 /**
  * Definition for a single input in a form (validations + error messages)
  */
 interface BaseControlDefinition {
+  // Skip all validations for this input when this returns false (i.e., the
+  // input is hidden or otherwise not applicable)
+  when?: (formData: FormData) => boolean;
+  // Disabled inputs are barred from validation, just like in the browser.
+  // Declaring this lets the server apply the same rules and is rendered onto
+  // the element.
+  disabled?: boolean | ((formData: FormData) => boolean);
+  // Convert a submitted string value into the value provided in parsedValues
+  parse?: (value: string) => unknown;
   customValidations?: CustomValidations;
+  // Default debounce/throttle for async custom validations that don't specify
+  // their own.  Built-in and sync validations always run immediately.
+  debounce?: number;
+  throttle?: number;
   errorMessages?: {
     [key: string]: ErrorMessage;
   };
+  // Multiple inputs are rendered with this name.  Checkboxes are treated as a
+  // group unless this is explicitly false.
   multiple?: boolean;
 }
 
@@ -181,6 +376,31 @@ type ControlDefinition =
   | TextAreaDefinition
   | SelectDefinition;
 
+/**
+ * Form-level validation function operating across multiple inputs, applied to
+ * the named inputs as if it were one of their custom validations
+ */
+export interface FormValidation {
+  inputs?: string[];
+  validate(
+    formData: FormData,
+    context?: CustomValidationContext
+  ): boolean | Promise<boolean>;
+}
+
+export interface FormValidations {
+  [key: string]: FormValidation;
+}
+
+/**
+ * Row limits for a field array, keyed by the name of a multiple input (i.e.,
+ * "emails") or a repeated group of inputs (i.e., "items" for "items[].qty")
+ */
+export interface FieldArrayDefinition {
+  minItems?: number;
+  maxItems?: number;
+}
+
 /**
  * Form information (inputs, validations, error messages)
  */
@@ -188,11 +408,74 @@ export interface FormDefinition {
   inputs: {
     [key: string]: ControlDefinition;
   };
+  formValidations?: FormValidations;
+  fieldArrays?: {
+    [key: string]: FieldArrayDefinition;
+  };
   errorMessages?: {
     [key: string]: ErrorMessage;
   };
 }
 
+/**
+ * Vendor-neutral schema interface implemented by Zod, Valibot, ArkType, etc.
+ * https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: {
+      readonly input: Input;
+      readonly output: Output;
+    };
+    // Optional Standard JSON Schema extension, used to derive native
+    // validation attributes
+    readonly jsonSchema?: {
+      readonly input: (options: { target: "draft-2020-12" }) => unknown;
+    };
+  };
+}
+
+/**
+ * JSON Schema keywords produced by toJSONSchema()
+ */
+export interface JSONSchema {
+  $schema?: string;
+  type?: "object" | "array" | "string" | "number" | "boolean";
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  multipleOf?: number;
+  format?: string;
+  const?: unknown;
+  // Paths within the form definition of validations that can't be expressed
+  // in JSON Schema (i.e., "customValidations.isUnique")
+  "x-rvs-non-portable"?: string[];
+}
+
+type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<{ readonly message: string }> };
+
+type StandardSchemaInput<S extends StandardSchemaV1> = NonNullable<
+  S["~standard"]["types"]
+>["input"];
+
+type StandardSchemaOutput<S extends StandardSchemaV1> = NonNullable<
+  S["~standard"]["types"]
+>["output"];
+
 /**
  * Mutable version of ValidityState that we can write to
  */
@@ -204,7 +487,17 @@ type MutableValidityState = Mutable<ValidityState>;
 export type ExtendedValidityState = MutableValidityState &
   Record<string, boolean>;
 
-export type AsyncValidationState = "idle" | "validating" | "done";
+/**
+ * Validity of form-level validations, keyed by validation name
+ */
+export type FormValidityState = Record<string, boolean> & { valid: boolean };
+
+export type AsyncValidationState =
+  | "idle"
+  | "pending"
+  | "validating"
+  | "done"
+  | "skipped";
 /**
  * Client-side state of the input
  */
@@ -215,66 +508,239 @@ export interface InputInfo {
   state: AsyncValidationState;
   validity?: ExtendedValidityState;
   errorMessages?: Record<string, string>;
+  // Failure objects returned from custom validations, keyed by validation name
+  validationFailures?: Record<string, CustomValidationFailure>;
+  // Messages for failing warning-severity validations, keyed by validation name
+  warnings?: Record<string, string>;
 }
 
 export type ServerOnlyCustomValidations<T extends FormDefinition> = Partial<{
   [key in KeyOf<T["inputs"]>]: CustomValidations;
 }>;
 
+// Submitted value type(s) for a single input
+type SubmittedValue<
+  Inputs extends FormDefinition["inputs"],
+  Key extends keyof Inputs
+> = Inputs[Key]["element"] extends "textarea"
+  ? Inputs[Key]["multiple"] extends true
+    ? string[]
+    : string
+  : Inputs[Key]["element"] extends "select"
+  ? Inputs[Key]["multiple"] extends true
+    ? string[]
+    : Inputs[Key] extends { validationAttrs: object }
+    ? Inputs[Key]["validationAttrs"] extends { multiple: true }
+      ? string[]
+      : string
+    : string
+  : Inputs[Key] extends { validationAttrs: object }
+  ? Inputs[Key]["validationAttrs"] extends { type: "file" }
+    ? Inputs[Key]["validationAttrs"] extends { multiple: true }
+      ? FileInfo[]
+      : FileInfo | null
+    : Inputs[Key]["validationAttrs"] extends { type: "checkbox" }
+    ? Inputs[Key]["validationAttrs"] extends { required: true }
+      ? string[]
+      : string[] | null
+    : Inputs[Key]["validationAttrs"] extends { type: "email" }
+    ? Inputs[Key]["multiple"] extends true
+      ? string[]
+      : Inputs[Key]["validationAttrs"] extends { multiple: true }
+      ? string[]
+      : string
+    : Inputs[Key]["multiple"] extends true
+    ? string[]
+    : string
+  : Inputs[Key]["multiple"] extends true
+  ? string[]
+  : string;
+
+// Parsed value for a single submitted value of an input
+type ParsedItem<InputDef> = InputDef extends {
+  parse: (value: string) => infer R;
+}
+  ? R
+  : InputDef extends { validationAttrs: { type: "number" | "range" } }
+  ? number
+  : InputDef extends {
+      validationAttrs: {
+        type: "date" | "month" | "week" | "time" | "datetime-local";
+      };
+    }
+  ? Date
+  : string;
+
+// Parsed value type(s) for a single input
+type ParsedValue<
+  Inputs extends FormDefinition["inputs"],
+  Key extends keyof Inputs
+> = Inputs[Key] extends { validationAttrs: { type: "checkbox" } }
+  ? Inputs[Key] extends { parse: (value: string) => infer R }
+    ? R[]
+    : Inputs[Key] extends { multiple: false }
+    ? boolean
+    : string[]
+  : Inputs[Key] extends { validationAttrs: { type: "file" } }
+  ? SubmittedValue<Inputs, Key>
+  : SubmittedValue<Inputs, Key> extends Array<any>
+  ? Array<ParsedItem<Inputs[Key]>>
+  : ParsedItem<Inputs[Key]> extends string
+  ? ParsedItem<Inputs[Key]>
+  : Inputs[Key] extends { parse: (value: string) => unknown }
+  ? ParsedItem<Inputs[Key]>
+  : Inputs[Key] extends { validationAttrs: { required: true } }
+  ? ParsedItem<Inputs[Key]>
+  : ParsedItem<Inputs[Key]> | null;
+
+// Input names accepted by the hooks/components, where repeated definitions
+// (i.e., "items[].qty") accept any index (i.e., "items[2].qty")
+export type InputName<T extends FormDefinition> = IndexedPath<
+  KeyOf<T["inputs"]>
+>;
+
+type IndexedPath<K extends string> = K extends `${infer A}[].${infer B}`
+  ? `${A}[${number}].${IndexedPath<B>}`
+  : K;
+
+// Names accepted by useFieldArray - multiple inputs or the prefix of a
+// repeated group of inputs (i.e., "items" for "items[].qty")
+export type FieldArrayName<T extends FormDefinition> = KeyOf<
+  T["inputs"]
+> extends infer K
+  ? K extends `${infer Prefix}[].${string}`
+    ? Prefix
+    : K & string
+  : never;
+
+// Head segment of a path-style input name (i.e., "items" for "items[].qty")
+type PathHead<K extends string> = K extends `${infer Head}.${string}`
+  ? Head extends `${infer Name}[]`
+    ? Name
+    : Head
+  : K;
+
+// Convert a map keyed by path-style input names (i.e., "shipping.street" or
+// "items[].qty") into the corresponding nested object/array structure
+type NestPaths<M extends Record<string, unknown>> = string extends keyof M
+  ? M
+  : {
+      [H in PathHead<KeyOf<M>>]: H extends keyof M
+        ? M[H]
+        : [Extract<KeyOf<M>, `${H}[].${string}`>] extends [never]
+        ? NestPaths<{
+            [K in KeyOf<M> as K extends `${H}.${infer R}` ? R : never]: M[K];
+          }>
+        : Array<
+            NestPaths<{
+              [K in KeyOf<M> as K extends `${H}[].${infer R}`
+                ? R
+                : never]: M[K];
+            }>
+          >;
+    };
+
+// Inputs that may be skipped, and thus not submitted
+type SkippableInputDefinition =
+  | { when: (formData: FormData) => boolean }
+  | { disabled: true | ((formData: FormData) => boolean) };
+
 // Server-side only (currently) - validate all specified inputs in the formData
 export type ServerFormInfo<
   FormDef extends FormDefinition,
   FormDefInputs extends FormDef["inputs"] = FormDef["inputs"]
 > = {
-  submittedValues: {
-    [Key in KeyOf<FormDefInputs>]: FormDefInputs[Key]["element"] extends "textarea"
-      ? FormDefInputs[Key]["multiple"] extends true
-        ? string[]
-        : string
-      : FormDefInputs[Key]["element"] extends "select"
-      ? FormDefInputs[Key]["multiple"] extends true
-        ? string[]
-        : FormDefInputs[Key] extends { validationAttrs: object }
-        ? FormDefInputs[Key]["validationAttrs"] extends { multiple: true }
-          ? string[]
-          : string
-        : string
-      : FormDefInputs[Key] extends { validationAttrs: object }
-      ? FormDefInputs[Key]["validationAttrs"] extends { type: "checkbox" }
-        ? FormDefInputs[Key]["validationAttrs"] extends { required: true }
-          ? string[]
-          : string[] | null
-        : FormDefInputs[Key]["validationAttrs"] extends { type: "email" }
-        ? FormDefInputs[Key]["multiple"] extends true
-          ? string[]
-          : FormDefInputs[Key]["validationAttrs"] extends { multiple: true }
-          ? string[]
-          : string
-        : FormDefInputs[Key]["multiple"] extends true
-        ? string[]
-        : string
-      : FormDefInputs[Key]["multiple"] extends true
-      ? string[]
-      : string;
-  };
-  inputs: Record<KeyOf<FormDefInputs>, InputInfo | InputInfo[]>;
+  // Path-style input names (i.e., "shipping.street" or "items[].qty") are
+  // nested into objects/arrays
+  submittedValues: NestPaths<{
+    // Conditional and disabled inputs are not submitted when skipped
+    [Key in KeyOf<FormDefInputs>]: FormDefInputs[Key] extends SkippableInputDefinition
+      ? SubmittedValue<FormDefInputs, Key> | null
+      : SubmittedValue<FormDefInputs, Key>;
+  }>;
+  // Submitted values converted based on the input type or a custom parse
+  // function.  These types assume the form is valid.
+  parsedValues: NestPaths<{
+    [Key in KeyOf<FormDefInputs>]: FormDefInputs[Key] extends SkippableInputDefinition
+      ? ParsedValue<FormDefInputs, Key> | null
+      : ParsedValue<FormDefInputs, Key>;
+  }>;
+  inputs: NestPaths<Record<KeyOf<FormDefInputs>, InputInfo | InputInfo[]>>;
+  formValidity: FormValidityState;
+  // Messages for failed form-level validations
+  formErrorMessages?: Record<string, string>;
   valid: boolean;
 };
 
+// Form definition derived from a set of Standard Schemas, where parsedValues
+// are typed with the schema output types
+export type SchemaFormDefinition<
+  Schemas extends Record<string, StandardSchemaV1>
+> = {
+  inputs: {
+    [Key in KeyOf<Schemas>]: {
+      validationAttrs: undefined extends StandardSchemaInput<Schemas[Key]>
+        ? InputValidationAttrs
+        : InputValidationAttrs & { required: true };
+      customValidations?: CustomValidations;
+      parse: (value: string) => StandardSchemaOutput<Schemas[Key]>;
+    };
+  };
+};
+
 /**
  * Validator to link HTML attribute to ValidityState key as well as provide an
  * implementation for server side validation
  */
 interface BuiltInValidator {
   domKey: ValidityStateKey;
-  validate(value: string, attrValue: string): boolean;
+  validate(
+    value: string,
+    attrValue: string,
+    attrs: Record<string, string | number | boolean>
+  ): boolean;
+  errorMessage: ErrorMessage;
+}
+
+interface FileValidator {
+  validityKey: FileValidityStateKey;
+  validate(files: FileInfo[], attrValue: string): boolean;
   errorMessage: ErrorMessage;
 }
 
 interface FormContextObject<T extends FormDefinition> {
   formDefinition: T;
   serverFormInfo?: ServerFormInfo<T>;
+  formRef?: React.RefObject<HTMLFormElement>;
   forceUpdate: any;
+  // Server index of each current row, keyed by field array name
+  fieldArrays?: FieldArrayServerIndexes;
+  setFieldArray?: (
+    name: string,
+    serverIndexes: Array<number | undefined> | undefined
+  ) => void;
+  locale?: string;
+  messages?: MessageCatalogs;
+  formState?: FormStateStore;
+  formValidator?: FormValidator;
+}
+
+type FieldArrayServerIndexes = Record<string, Array<number | undefined>>;
+
+// Cached custom validation results, keyed by input/validation name and then
+// by value + dependencies
+type ValidationResultCache = Map<
+  string,
+  Map<string, { result: CustomValidationResult; expiresAt: number }>
+>;
+
+interface ValidateInputOpts {
+  signal?: AbortSignal;
+  cache?: ValidationResultCache;
+  // Submitted files for file inputs (SSR)
+  files?: FileInfo[];
+  // Collects the names of custom validations that returned a Promise (CSR)
+  asyncValidations?: Set<string>;
 }
 
 /**
@@ -293,15 +759,35 @@ const builtInValidityToAttrMapping: Record<
   ValidityStateKey,
   BuiltInValidationAttr
 > = {
+  badInput: "type",
   typeMismatch: "type",
   valueMissing: "required",
   tooShort: "minLength",
   tooLong: "maxLength",
   rangeUnderflow: "min",
   rangeOverflow: "max",
+  stepMismatch: "step",
   patternMismatch: "pattern",
 };
 
+// Map of file validity key -> validation attribute (i.e., fileTooLarge -> maxSize)
+const fileValidityToAttrMapping: Record<
+  FileValidityStateKey,
+  FileValidationAttr
+> = {
+  fileTypeMismatch: "accept",
+  fileTooLarge: "maxSize",
+  fileTooSmall: "minSize",
+  tooManyFiles: "maxFiles",
+};
+
+// Validation attributes we handle ourselves that aren't valid HTML attributes
+// and thus shouldn't be rendered onto the element
+const nonHtmlValidationAttrs = ["maxSize", "minSize", "maxFiles"];
+
+// JSON Schema extension keyword listing non-portable validations
+const NON_PORTABLE_KEYWORD = "x-rvs-non-portable";
+
 // Directly from the spec - please do not file issues or submit PRs to change
 // this unless it becomes out of sync with the spec.
 // https://html.spec.whatwg.org/multipage/input.html#valid-e-mail-address
@@ -309,17 +795,79 @@ const EMAIL_REGEX =
   // eslint-disable-next-line no-useless-escape
   /^[a-zA-Z0-9.!#$%&'*+\/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
 
+// Step scale factors, default steps and default step bases per input type. See:
+// https://html.spec.whatwg.org/multipage/input.html#concept-input-step-scale
+const stepDefinitions: Record<
+  string,
+  { scaleFactor: number; defaultStep: number; defaultStepBase: number }
+> = {
+  number: { scaleFactor: 1, defaultStep: 1, defaultStepBase: 0 },
+  range: { scaleFactor: 1, defaultStep: 1, defaultStepBase: 0 },
+  date: { scaleFactor: 86400000, defaultStep: 1, defaultStepBase: 0 },
+  month: { scaleFactor: 1, defaultStep: 1, defaultStepBase: 0 },
+  week: { scaleFactor: 604800000, defaultStep: 1, defaultStepBase: -259200000 },
+  time: { scaleFactor: 1000, defaultStep: 60, defaultStepBase: 0 },
+  "datetime-local": { scaleFactor: 1000, defaultStep: 60, defaultStepBase: 0 },
+};
+
+const MS_PER_DAY = 86400000;
+
+// https://html.spec.whatwg.org/multipage/common-microsyntaxes.html#valid-floating-point-number
+const FLOATING_POINT_REGEX = /^-?(?:\d+(?:\.\d+)?|\.\d+)(?:[eE][-+]?\d+)?$/;
+// https://html.spec.whatwg.org/multipage/common-microsyntaxes.html#dates-and-times
+const DATE_REGEX = /^(\d{4,})-(\d{2})-(\d{2})$/;
+const MONTH_REGEX = /^(\d{4,})-(\d{2})$/;
+const WEEK_REGEX = /^(\d{4,})-W(\d{2})$/;
+const TIME_REGEX = /^(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/;
+const DATETIME_LOCAL_REGEX = /^(\d{4,}-\d{2}-\d{2})[T ](.+)$/;
+// https://html.spec.whatwg.org/multipage/common-microsyntaxes.html#valid-simple-colour
+const COLOR_REGEX = /^#[0-9a-fA-F]{6}$/;
+
+// Compiled pattern attributes, shared across all validateInput calls.  Capped
+// so dynamic pattern attributes can't grow the cache without bound
+const patternCache = new Map<string, RegExp>();
+const PATTERN_CACHE_SIZE = 100;
+
+// The "v" flag is not available in all runtimes we support (i.e., Node 18), in
+// which case we fall back to the "u" flag the spec previously used
+const PATTERN_FLAGS = (() => {
+  try {
+    // eslint-disable-next-line no-invalid-regexp
+    new RegExp("", "v");
+    return "v";
+  } catch (e) {
+    return "u";
+  }
+})();
+
+// Browsers sanitize values that aren't valid for these input types (i.e.,
+// "abc" for a number input) and flag them as badInput, so they only reach the
+// server through no-JS or scripted submissions
+// https://html.spec.whatwg.org/multipage/input.html#value-sanitization-algorithm
+const sanitizedTypeValidators: Record<string, (value: string) => boolean> = {
+  number: (value) => parseFloatingPointNumber(value) != null,
+  range: (value) => parseFloatingPointNumber(value) != null,
+  date: (value) => parseDateString(value) != null,
+  month: (value) => parseMonthString(value) != null,
+  week: (value) => parseWeekString(value) != null,
+  time: (value) => parseTimeString(value) != null,
+  "datetime-local": (value) => parseDateTimeLocalString(value) != null,
+  color: (value) => COLOR_REGEX.test(value),
+};
+
 // Mimic browser built-in validations so we can run the on the server
 const builtInValidations: Record<BuiltInValidationAttr, BuiltInValidator> = {
   type: {
     domKey: "typeMismatch",
-    validate: (value, attrValue): boolean => {
+    validate: (value, attrValue, attrs): boolean => {
       if (value.length === 0) {
         return true;
       }
 
       if (attrValue === "email") {
-        return EMAIL_REGEX.test(value);
+        return attrs.multiple === true
+          ? parseEmailList(value).every((email) => EMAIL_REGEX.test(email))
+          : EMAIL_REGEX.test(value);
       }
 
       if (attrValue === "url") {
@@ -348,11 +896,17 @@ const builtInValidations: Record<BuiltInValidationAttr, BuiltInValidator> = {
     },
     errorMessage: (attrValue) => {
       let messages: Record<string, string> = {
+        color: "Invalid color",
         date: "Invalid date",
+        "datetime-local": "Invalid date and time",
         email: "Invalid email",
+        month: "Invalid month",
         number: "Invalid number",
+        range: "Invalid number",
         tel: "Invalid phone number",
+        time: "Invalid time",
         url: "Invalid URL",
+        week: "Invalid week",
       };
       return (attrValue ? messages[attrValue] : null) || "Invalid value";
     },
@@ -378,26 +932,332 @@ const builtInValidations: Record<BuiltInValidationAttr, BuiltInValidator> = {
   },
   min: {
     domKey: "rangeUnderflow",
-    validate: (value, attrValue) =>
-      value.length === 0 || Number(value) >= Number(attrValue),
+    validate: (value, attrValue, attrs) =>
+      value.length === 0 || !isOutOfRange("min", value, attrValue, attrs),
     errorMessage: (attrValue) =>
       `Value must be greater than or equal to ${attrValue}`,
   },
   max: {
     domKey: "rangeOverflow",
-    validate: (value, attrValue) =>
-      value.length === 0 || Number(value) <= Number(attrValue),
+    validate: (value, attrValue, attrs) =>
+      value.length === 0 || !isOutOfRange("max", value, attrValue, attrs),
     errorMessage: (attrValue) =>
       `Value must be less than or equal to ${attrValue}`,
   },
+  step: {
+    domKey: "stepMismatch",
+    validate: (value, attrValue, attrs) => {
+      if (value.length === 0 || attrValue.toLowerCase() === "any") {
+        return true;
+      }
+
+      // step only applies to numeric and date/time inputs
+      let type = String(attrs.type || "text");
+      let stepDefinition = stepDefinitions[type];
+      if (!stepDefinition) {
+        return true;
+      }
+
+      // Unparseable values are a badInput/typeMismatch concern, not a step one
+      let numericValue = parseInputValue(type, value);
+      if (numericValue == null) {
+        return true;
+      }
+
+      // Invalid/non-positive steps fall back to the default step
+      // https://html.spec.whatwg.org/multipage/input.html#concept-input-step
+      let step = parseFloatingPointNumber(attrValue);
+      if (step == null || step <= 0) {
+        step = stepDefinition.defaultStep;
+      }
+      let allowedValueStep = step * stepDefinition.scaleFactor;
+
+      // https://html.spec.whatwg.org/multipage/input.html#concept-input-min-zero
+      let stepBase =
+        (attrs.min != null ? parseInputValue(type, String(attrs.min)) : null) ??
+        stepDefinition.defaultStepBase;
+
+      return isStepAligned(numericValue, stepBase, allowedValueStep);
+    },
+    errorMessage: (attrValue) => `Value must be in increments of ${attrValue}`,
+  },
   pattern: {
     domKey: "patternMismatch",
-    validate: (value, attrValue) =>
-      value.length === 0 || new RegExp(attrValue).test(value),
+    validate: (value, attrValue, attrs) => {
+      if (value.length === 0) {
+        return true;
+      }
+      let regex = compilePattern(attrValue);
+      // The pattern must match each individual address for multiple emails
+      return attrs.type === "email" && attrs.multiple === true
+        ? parseEmailList(value).every((email) => regex.test(email))
+        : regex.test(value);
+    },
     errorMessage: () => `Value does not match the expected pattern`,
   },
 };
 
+function parseFloatingPointNumber(value: string): number | null {
+  if (!FLOATING_POINT_REGEX.test(value)) {
+    return null;
+  }
+  let number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function isLeapYear(year: number) {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function getDaysInMonth(year: number, month: number) {
+  return month === 2
+    ? isLeapYear(year)
+      ? 29
+      : 28
+    : [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+}
+
+// Date.UTC treats years 0-99 as 1900-1999, so set the full year explicitly
+function getUTCTime(year: number, month: number, day: number) {
+  let date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date.getTime();
+}
+
+// Milliseconds since the epoch for a valid date string (YYYY-MM-DD)
+function parseDateString(value: string): number | null {
+  let match = DATE_REGEX.exec(value);
+  if (!match) {
+    return null;
+  }
+  let [year, month, day] = match.slice(1).map(Number);
+  if (
+    year <= 0 ||
+    month < 1 ||
+    month > 12 ||
+    day < 1 ||
+    day > getDaysInMonth(year, month)
+  ) {
+    return null;
+  }
+  let time = getUTCTime(year, month, day);
+  return Number.isNaN(time) ? null : time;
+}
+
+// Months since January 1970 for a valid month string (YYYY-MM)
+function parseMonthString(value: string): number | null {
+  let match = MONTH_REGEX.exec(value);
+  if (!match) {
+    return null;
+  }
+  let [year, month] = match.slice(1).map(Number);
+  if (year <= 0 || month < 1 || month > 12) {
+    return null;
+  }
+  return (year - 1970) * 12 + month - 1;
+}
+
+// Milliseconds since the epoch for the Monday starting a valid week string
+// (YYYY-Www).  Week 1 is the week containing the first Thursday of the year.
+function parseWeekString(value: string): number | null {
+  let match = WEEK_REGEX.exec(value);
+  if (!match) {
+    return null;
+  }
+  let [year, week] = match.slice(1).map(Number);
+  if (year <= 0 || week < 1) {
+    return null;
+  }
+  let jan1Day = new Date(getUTCTime(year, 1, 1)).getUTCDay();
+  let maxWeek = jan1Day === 4 || (jan1Day === 3 && isLeapYear(year)) ? 53 : 52;
+  if (week > maxWeek) {
+    return null;
+  }
+  let jan4 = getUTCTime(year, 1, 4);
+  let week1Monday = jan4 - ((new Date(jan4).getUTCDay() + 6) % 7) * MS_PER_DAY;
+  return week1Monday + (week - 1) * 7 * MS_PER_DAY;
+}
+
+// Milliseconds since midnight for a valid time string (HH:MM[:SS[.sss]])
+function parseTimeString(value: string): number | null {
+  let match = TIME_REGEX.exec(value);
+  if (!match) {
+    return null;
+  }
+  let [hours, minutes] = match.slice(1, 3).map(Number);
+  let seconds = match[3] ? Number(match[3]) : 0;
+  let milliseconds = match[4] ? Number(match[4].padEnd(3, "0")) : 0;
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    return null;
+  }
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + milliseconds;
+}
+
+// Milliseconds since the epoch for a valid local date and time string
+// (YYYY-MM-DDTHH:MM[:SS[.sss]]), ignoring time zones
+function parseDateTimeLocalString(value: string): number | null {
+  let match = DATETIME_LOCAL_REGEX.exec(value);
+  if (!match) {
+    return null;
+  }
+  let date = parseDateString(match[1]);
+  let time = parseTimeString(match[2]);
+  return date == null || time == null ? null : date + time;
+}
+
+// Convert an input value to a number per the "convert a string to a number"
+// algorithm for the given input type.  Returns null for unparseable values or
+// types that have no numeric representation
+// https://html.spec.whatwg.org/multipage/input.html#concept-input-value-string-number
+// Number of digits after the decimal point, i.e., 2 for 0.05 or 1e-2
+function getDecimalPlaces(num: number) {
+  let [mantissa, exponent] = String(num).split("e");
+  let decimals = (mantissa.split(".")[1] || "").length - Number(exponent || 0);
+  return Math.max(0, decimals);
+}
+
+// Is value an integral number of steps away from base?  Floating point math
+// means (0.3 - 0.1) / 0.1 !== 2, so compare in integers scaled by the decimal
+// places of the operands
+function isStepAligned(value: number, base: number, step: number) {
+  let scale =
+    10 **
+    Math.max(
+      getDecimalPlaces(value),
+      getDecimalPlaces(base),
+      getDecimalPlaces(step)
+    );
+  let offset = Math.round(value * scale) - Math.round(base * scale);
+  return offset % Math.round(step * scale) === 0;
+}
+
+function parseInputValue(type: string, value: string): number | null {
+  switch (type) {
+    case "number":
+    case "range":
+      return parseFloatingPointNumber(value);
+    case "date":
+      return parseDateString(value);
+    case "month":
+      return parseMonthString(value);
+    case "week":
+      return parseWeekString(value);
+    case "time":
+      return parseTimeString(value);
+    case "datetime-local":
+      return parseDateTimeLocalString(value);
+    default:
+      return null;
+  }
+}
+
+// Convert a date/time input value to a Date per the "convert a string to a
+// Date" algorithm used by valueAsDate, which represents all types in UTC.
+// datetime-local has no valueAsDate but we follow the same convention.
+// https://html.spec.whatwg.org/multipage/input.html#concept-input-value-string-date
+function parseInputValueAsDate(type: string, value: string): Date | null {
+  let number = parseInputValue(type, value);
+  if (number == null) {
+    return null;
+  }
+  if (type === "month") {
+    // Months are represented as the number of months since January 1970
+    return new Date(
+      getUTCTime(1970 + Math.floor(number / 12), (number % 12) + 1, 1)
+    );
+  }
+  return new Date(number);
+}
+
+// Determine if a value violates the min or max bound for its input type,
+// comparing dates/times chronologically instead of as plain numbers
+// https://html.spec.whatwg.org/multipage/input.html#the-min-and-max-attributes
+function isOutOfRange(
+  bound: "min" | "max",
+  value: string,
+  attrValue: string,
+  attrs: Record<string, string | number | boolean>
+) {
+  let type = String(attrs.type || "text");
+
+  // Types without a numeric representation get a simple numeric comparison
+  if (!stepDefinitions[type]) {
+    return bound === "min"
+      ? !(Number(value) >= Number(attrValue))
+      : !(Number(value) <= Number(attrValue));
+  }
+
+  // Unparseable values and bounds are not range violations
+  let numericValue = parseInputValue(type, value);
+  let limit = parseInputValue(type, attrValue);
+  if (numericValue == null || limit == null) {
+    return false;
+  }
+
+  // Time inputs have a periodic domain, so a max earlier than the min is a
+  // range wrapping past midnight (i.e., 22:00 - 06:00), and a value is only
+  // out of range when it falls in the gap between max and min.
+  // https://html.spec.whatwg.org/multipage/input.html#has-a-reversed-range
+  if (type === "time" && attrs.min != null && attrs.max != null) {
+    let min = parseInputValue(type, String(attrs.min));
+    let max = parseInputValue(type, String(attrs.max));
+    if (min != null && max != null && max < min) {
+      return numericValue < min && numericValue > max;
+    }
+  }
+
+  return bound === "min" ? numericValue < limit : numericValue > limit;
+}
+
+// Compile a pattern attribute the same way the browser does, so the pattern
+// must match the entire value
+// https://html.spec.whatwg.org/multipage/input.html#compiled-pattern-regular-expression
+function compilePattern(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (regex) {
+    return regex;
+  }
+  try {
+    regex = new RegExp(`^(?:${pattern})$`, PATTERN_FLAGS);
+  } catch (e) {
+    throw new Error(
+      `Unable to compile pattern attribute "${pattern}": ${
+        e instanceof Error ? e.message : e
+      }`
+    );
+  }
+  if (patternCache.size >= PATTERN_CACHE_SIZE) {
+    // Maps iterate in insertion order, so this evicts the oldest pattern
+    patternCache.delete(patternCache.keys().next().value);
+  }
+  patternCache.set(pattern, regex);
+  return regex;
+}
+
+// https://infra.spec.whatwg.org/#split-on-commas
+function splitOnCommas(value: string) {
+  let tokens = value.split(",");
+  // A trailing comma does not produce a trailing empty token
+  if (tokens[tokens.length - 1] === "") {
+    tokens.pop();
+  }
+  return tokens.map((token) =>
+    token.replace(/^[\t\n\f\r ]+|[\t\n\f\r ]+$/g, "")
+  );
+}
+
+// Sanitize an <input type="email" multiple> value the same way the browser
+// does prior to submission/validation
+// https://html.spec.whatwg.org/multipage/input.html#email-state-(type=email):value-sanitization-algorithm-2
+function sanitizeEmailList(value: string) {
+  return splitOnCommas(value).join(",");
+}
+
+// Parse an <input type="email" multiple> value into individual addresses
+function parseEmailList(value: string) {
+  return splitOnCommas(sanitizeEmailList(value));
+}
+
 function invariant(value: boolean, message?: string): asserts value;
 function invariant<T>(
   value: T | null | undefined,
@@ -436,6 +1296,10 @@ function useComposedRefs<RefValueType = unknown>(
   }, refs);
 }
 
+// useLayoutEffect warns when rendered on the server
+const useIsomorphicLayoutEffect =
+  typeof document !== "undefined" ? React.useLayoutEffect : React.useEffect;
+
 const getInputId = (name: string, reactId: string) => `${name}--${reactId}`;
 const getErrorsId = (name: string, reactId: string) =>
   `${name}-errors--${reactId}`;
@@ -449,6 +1313,80 @@ const omit = (
     .filter(([k]) => !keys.includes(k))
     .reduce((acc, [k, v]) => Object.assign(acc, { [k]: v }), {});
 
+// File validations, run against the selected files (CSR) or the submitted
+// File entries (SSR)
+const fileValidations: Record<FileValidationAttr, FileValidator> = {
+  accept: {
+    validityKey: "fileTypeMismatch",
+    validate: (files, attrValue) =>
+      files.every((file) => isFileAccepted(file, attrValue)),
+    errorMessage: (attrValue) => `File must be of type ${attrValue}`,
+  },
+  maxSize: {
+    validityKey: "fileTooLarge",
+    validate: (files, attrValue) =>
+      files.every((file) => file.size <= Number(attrValue)),
+    errorMessage: (attrValue) =>
+      `File size must be no more than ${attrValue} bytes`,
+  },
+  minSize: {
+    validityKey: "fileTooSmall",
+    validate: (files, attrValue) =>
+      files.every((file) => file.size >= Number(attrValue)),
+    errorMessage: (attrValue) =>
+      `File size must be at least ${attrValue} bytes`,
+  },
+  maxFiles: {
+    validityKey: "tooManyFiles",
+    validate: (files, attrValue) => files.length <= Number(attrValue),
+    errorMessage: (attrValue) =>
+      `No more than ${attrValue} files may be selected`,
+  },
+};
+
+// Does the file match one of the comma-separated tokens in an accept attribute?
+// https://html.spec.whatwg.org/multipage/input.html#attr-input-accept
+function isFileAccepted(file: FileInfo, accept: string) {
+  let tokens = accept
+    .split(",")
+    .map((t) => t.trim().toLowerCase())
+    .filter((t) => t.startsWith(".") || t.includes("/"));
+  // No valid tokens means no restrictions
+  if (tokens.length === 0) {
+    return true;
+  }
+  let name = file.name.toLowerCase();
+  let type = file.type.toLowerCase();
+  return tokens.some((token) => {
+    if (token.startsWith(".")) {
+      return name.endsWith(token);
+    }
+    if (token.endsWith("/*")) {
+      return type.startsWith(token.slice(0, -1));
+    }
+    return type === token;
+  });
+}
+
+function getFileInfo(file: File): FileInfo {
+  let { name, size, type, lastModified } = file;
+  return { name, size, type, lastModified };
+}
+
+// Browsers submit an empty file entry for file inputs with no selection
+function getSubmittedFiles(values: FormDataEntryValue[]): FileInfo[] {
+  return values
+    .filter((v): v is File => typeof v !== "string")
+    .filter((file) => file.name !== "" || file.size > 0)
+    .map(getFileInfo);
+}
+
+// File inputs use the selected file names as their value so that selecting
+// different files re-triggers validations
+function getFileInputValue(files: FileInfo[]) {
+  return files.map((file) => file.name).join(", ");
+}
+
 function getBaseValidityState(): ExtendedValidityState {
   return {
     badInput: false,
@@ -466,23 +1404,199 @@ function getBaseValidityState(): ExtendedValidityState {
   };
 }
 
-function IsInputDefinition(
-  inputDef: ControlDefinition
-): inputDef is InputDefinition {
-  return inputDef.element === "input" || inputDef.element == null;
+// Normalize an indexed input name (i.e., "items[2].qty") to the name of its
+// repeated definition (i.e., "items[].qty")
+function normalizeInputName(name: string) {
+  return name.replace(/\[\d+\]/g, "[]");
 }
 
-// Perform all specified html validations for a single input
-// Called in a useEffect client side and from validateServerFormIno server-side
-async function validateInput(
-  inputName: string,
+// Resolve the definition key for an input name, including indexed names of
+// repeated definitions
+function getDefinitionName(formDefinition: FormDefinition, name: string) {
+  return name in formDefinition.inputs ? name : normalizeInputName(name);
+}
+
+function getInputDefinition(
+  formDefinition: FormDefinition | undefined,
+  name: string
+): ControlDefinition | undefined {
+  return formDefinition
+    ? formDefinition.inputs[getDefinitionName(formDefinition, name)]
+    : undefined;
+}
+
+// Is this the definition of a repeated group of inputs (i.e., "items[].qty")?
+// A trailing "[]" (i.e., "tags[]") is just part of the input name.
+function isRepeatedDefinition(name: string) {
+  return name.includes("[].");
+}
+
+// Expand repeated input definitions (i.e., "items[].qty") into the concrete
+// input names for each row present in the FormData (i.e., "items[0].qty",
+// "items[1].qty").  Rows are identified by any of their submitted inputs, so
+// we still validate inputs that submit nothing (i.e., unchecked checkboxes).
+function getInputEntries(
+  formDefinition: FormDefinition,
+  formData: FormData
+): Array<[string, ControlDefinition]> {
+  let formDataNames = Array.from(new Set(formData.keys()));
+  return Object.entries(formDefinition.inputs).flatMap(
+    ([name, inputDef]): Array<[string, ControlDefinition]> => {
+      if (!isRepeatedDefinition(name)) {
+        return [[name, inputDef]];
+      }
+      let index = name.lastIndexOf("[].");
+      let rowPattern = new RegExp(
+        "^" +
+          name
+            .slice(0, index + 2)
+            .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+            .replace(/\\\[\\\]/g, "\\[\\d+\\]") +
+          "\\."
+      );
+      let rows = new Set(
+        formDataNames.flatMap((n) => rowPattern.exec(n)?.[0] ?? [])
+      );
+      return Array.from(rows).map((row) => [
+        row + name.slice(index + 3),
+        inputDef,
+      ]);
+    }
+  );
+}
+
+// Split a path-style input name into its segments, i.e., "items[2].qty" ->
+// ["items", 2, "qty"].  A literal "[]" remains part of its segment.
+function parsePath(name: string): Array<string | number> {
+  return Array.from(name.matchAll(/([^.[\]]+(?:\[\])?)|\[(\d+)\]/g)).map(
+    (match) => (match[2] != null ? Number(match[2]) : match[1])
+  );
+}
+
+function getPath(obj: unknown, name: string): unknown {
+  return parsePath(name).reduce<unknown>(
+    (acc, segment) =>
+      acc != null && typeof acc === "object"
+        ? (acc as Record<string | number, unknown>)[segment]
+        : undefined,
+    obj
+  );
+}
+
+function setPath(obj: Record<string, unknown>, name: string, value: unknown) {
+  let segments = parsePath(name);
+  let current: Record<string | number, unknown> = obj;
+  segments.forEach((segment, i) => {
+    if (i === segments.length - 1) {
+      current[segment] = value;
+    } else {
+      if (current[segment] == null) {
+        current[segment] = typeof segments[i + 1] === "number" ? [] : {};
+      }
+      current = current[segment] as Record<string | number, unknown>;
+    }
+  });
+}
+
+// Convert a map keyed by path-style input names into nested objects/arrays.
+// Repeated definitions without any submitted rows become empty arrays.
+function nestPaths(
+  flat: Record<string, unknown>,
+  formDefinition: FormDefinition
+) {
+  let nested: Record<string, unknown> = {};
+  for (let [name, value] of Object.entries(flat)) {
+    setPath(nested, name, value);
+  }
+  for (let name of Object.keys(formDefinition.inputs)) {
+    let index = name.indexOf("[].");
+    if (index >= 0 && getPath(nested, name.slice(0, index)) == null) {
+      setPath(nested, name.slice(0, index), []);
+    }
+  }
+  return nested;
+}
+
+// Is this input currently excluded from validation via its `when` predicate
+// or `disabled` definition?
+function isInputSkipped(
+  inputDef: ControlDefinition | undefined,
+  formData: FormData
+) {
+  if (!inputDef) {
+    return false;
+  }
+  return (
+    (inputDef.when != null && !inputDef.when(formData)) ||
+    isInputDisabled(inputDef, formData)
+  );
+}
+
+function isInputDisabled(inputDef: ControlDefinition, formData: FormData) {
+  return typeof inputDef.disabled === "function"
+    ? inputDef.disabled(formData)
+    : inputDef.disabled === true;
+}
+
+// Input types for which the readonly attribute does not apply, and thus does
+// not bar them from validation
+const READONLY_INAPPLICABLE_TYPES = [
+  "hidden",
+  "range",
+  "color",
+  "checkbox",
+  "radio",
+  "file",
+];
+
+// Disabled controls (including those in a disabled <fieldset>) and readonly
+// controls are barred from constraint validation.  See:
+// https://html.spec.whatwg.org/multipage/form-control-infrastructure.html#barred-from-constraint-validation
+function isBarredFromValidation(
+  inputEl?: SupportedHTMLElements | SupportedHTMLElements[]
+): boolean {
+  if (Array.isArray(inputEl)) {
+    return (
+      inputEl.length > 0 && inputEl.every((el) => isBarredFromValidation(el))
+    );
+  }
+  if (!inputEl) {
+    return false;
+  }
+  if (inputEl.matches(":disabled")) {
+    return true;
+  }
+  return (
+    "readOnly" in inputEl &&
+    inputEl.readOnly &&
+    !READONLY_INAPPLICABLE_TYPES.includes(inputEl.type)
+  );
+}
+
+function IsInputDefinition(
+  inputDef: ControlDefinition
+): inputDef is InputDefinition {
+  return inputDef.element === "input" || inputDef.element == null;
+}
+
+// Perform all specified html validations for a single input
+// Called in a useEffect client side and from validateServerFormIno server-side
+async function validateInput(
+  inputName: string,
   validationAttrs: ControlDefinition["validationAttrs"],
   customValidations: ControlDefinition["customValidations"],
   value: string,
   inputEl?: SupportedHTMLElements | SupportedHTMLElements[], // CSR
-  formData?: FormData // SSR
-): Promise<ExtendedValidityState> {
+  formData?: FormData, // SSR
+  opts?: ValidateInputOpts
+): Promise<{
+  validity: ExtendedValidityState;
+  validationFailures?: Record<string, CustomValidationFailure>;
+  warnings?: string[];
+}> {
   let validity = getBaseValidityState();
+  let validationFailures: Record<string, CustomValidationFailure> | undefined;
+  let warnings: string[] | undefined;
 
   if (!formData) {
     let formEl = Array.isArray(inputEl) ? inputEl[0]?.form : inputEl?.form;
@@ -493,6 +1607,12 @@ async function validateInput(
     formData = new FormData(formEl);
   }
 
+  // Some validations (i.e., step) depend on the values of other attributes
+  let currentValidationAttrs = calculateValidationAttrs(
+    validationAttrs,
+    formData
+  );
+
   if (validationAttrs) {
     for (let _attr of Object.keys(validationAttrs)) {
       let attr = _attr as BuiltInValidationAttr;
@@ -510,11 +1630,19 @@ async function validateInput(
         continue;
       }
       let builtInValidation = builtInValidations[attr];
+      // Not all attributes have validations (i.e., multiple)
+      if (!builtInValidation) {
+        continue;
+      }
       let isInvalid = false;
       let isElInvalid = (el?: SupportedHTMLElements) =>
         el?.validity
           ? el?.validity[builtInValidation.domKey]
-          : !builtInValidation.validate(value, String(attrValue));
+          : !builtInValidation.validate(
+              value,
+              String(attrValue),
+              currentValidationAttrs
+            );
       if (Array.isArray(inputEl)) {
         isInvalid = inputEl.every((el) => isElInvalid(el));
       } else {
@@ -523,58 +1651,484 @@ async function validateInput(
       validity[builtInValidation?.domKey || attr] = isInvalid;
       validity.valid = validity.valid && !isInvalid;
     }
+
+    let type = String(currentValidationAttrs.type || "text");
+    let isValidForType = sanitizedTypeValidators[type];
+    if (isValidForType) {
+      let isElBadInput = (el?: SupportedHTMLElements) =>
+        el?.validity
+          ? el.validity.badInput
+          : value.length > 0 && !isValidForType(value);
+      let isBadInput = Array.isArray(inputEl)
+        ? inputEl.some((el) => isElBadInput(el))
+        : isElBadInput(inputEl);
+      validity.badInput = isBadInput;
+      validity.valid = validity.valid && !isBadInput;
+    }
+
+    if (type === "file") {
+      let el = Array.isArray(inputEl) ? inputEl[0] : inputEl;
+      let files =
+        el && "files" in el && el.files
+          ? Array.from(el.files).map(getFileInfo)
+          : opts?.files || [];
+      for (let attr of Object.keys(fileValidations) as FileValidationAttr[]) {
+        let attrValue = currentValidationAttrs[attr];
+        if (attrValue == null) {
+          continue;
+        }
+        let fileValidation = fileValidations[attr];
+        // Nothing to validate when no files are selected, that's up to required
+        let isInvalid =
+          files.length > 0 &&
+          !fileValidation.validate(files, String(attrValue));
+        validity[fileValidation.validityKey] = isInvalid;
+        validity.valid = validity.valid && !isInvalid;
+      }
+    }
   }
 
   if (customValidations) {
     for (let name of Object.keys(customValidations)) {
-      let validate = customValidations[name];
-      let isInvalid = !(await validate(value, formData));
+      let validation = customValidations[name];
+      let validate =
+        typeof validation === "function" ? validation : validation.validate;
+      let cachedResult = getCachedValidationResult(
+        opts?.cache,
+        inputName,
+        name,
+        validation,
+        value,
+        formData
+      );
+      let pendingResult =
+        cachedResult ?? validate(value, formData, { signal: opts?.signal });
+      if (pendingResult instanceof Promise) {
+        opts?.asyncValidations?.add(name);
+      }
+      let result = await pendingResult;
+      // Results of aborted validations may just reflect the abort
+      if (cachedResult == null && !opts?.signal?.aborted) {
+        setCachedValidationResult(
+          opts?.cache,
+          inputName,
+          name,
+          validation,
+          value,
+          formData,
+          result
+        );
+      }
+      let isInvalid = typeof result === "boolean" ? !result : !result.valid;
+      if (isInvalid && typeof result === "object") {
+        validationFailures = { ...validationFailures, [name]: result };
+      }
+      // Warnings are tracked separately and never impact validity
+      if (isWarningValidation(validation)) {
+        if (isInvalid) {
+          warnings = [...(warnings || []), name];
+        }
+        continue;
+      }
       validity[name] = isInvalid;
       validity.valid = validity.valid && !isInvalid;
     }
   }
 
+  return {
+    validity,
+    ...(validationFailures ? { validationFailures } : {}),
+    ...(warnings ? { warnings } : {}),
+  };
+}
+
+function isWarningValidation(validation: CustomValidation): boolean {
+  return typeof validation !== "function" && validation.severity === "warning";
+}
+
+// Determine how long to wait before running a custom validation client-side,
+// based on its debounce/throttle settings (or those of the input for async
+// validations).  When both are specified, throttle acts as a maximum wait for
+// the debounce.
+function getCustomValidationDelay(
+  validation: CustomValidation,
+  inputDef: ControlDefinition,
+  hasReturnedPromise: boolean,
+  lastRun: number,
+  now: number
+) {
+  let config = typeof validation === "function" ? null : validation;
+  let inputDelays = config?.async ?? hasReturnedPromise ? inputDef : null;
+  let debounce = config?.debounce ?? inputDelays?.debounce;
+  let throttle = config?.throttle ?? inputDelays?.throttle;
+  let delays: number[] = [];
+  if (debounce != null) {
+    delays.push(debounce);
+  }
+  if (throttle != null) {
+    delays.push(Math.max(0, lastRun + throttle - now));
+  }
+  return delays.length > 0 ? Math.min(...delays) : 0;
+}
+
+function getValidationCacheConfig(
+  validation: CustomValidation
+): CustomValidationCacheConfig | null {
+  if (typeof validation === "function" || !validation.cache) {
+    return null;
+  }
+  return validation.cache === true ? {} : validation.cache;
+}
+
+function getValidationCacheKey(
+  config: CustomValidationCacheConfig,
+  value: string,
+  formData: FormData
+) {
+  return JSON.stringify([
+    value,
+    ...(config.dependencies || []).map((name) =>
+      formData.getAll(name).filter((v) => typeof v === "string")
+    ),
+  ]);
+}
+
+// Look up a previously cached result for an opted-in custom validation
+function getCachedValidationResult(
+  cache: ValidationResultCache | undefined,
+  inputName: string,
+  validationName: string,
+  validation: CustomValidation,
+  value: string,
+  formData: FormData
+): CustomValidationResult | undefined {
+  let config = getValidationCacheConfig(validation);
+  let entries = cache?.get(`${inputName}:${validationName}`);
+  if (!config || !entries) {
+    return undefined;
+  }
+  let key = getValidationCacheKey(config, value, formData);
+  let entry = entries.get(key);
+  if (!entry) {
+    return undefined;
+  }
+  entries.delete(key);
+  if (entry.expiresAt <= Date.now()) {
+    return undefined;
+  }
+  // Re-insert so the most recently used results are evicted last
+  entries.set(key, entry);
+  return entry.result;
+}
+
+function setCachedValidationResult(
+  cache: ValidationResultCache | undefined,
+  inputName: string,
+  validationName: string,
+  validation: CustomValidation,
+  value: string,
+  formData: FormData,
+  result: CustomValidationResult
+) {
+  let config = getValidationCacheConfig(validation);
+  if (!cache || !config || (config.maxSize != null && config.maxSize <= 0)) {
+    return;
+  }
+  let cacheKey = `${inputName}:${validationName}`;
+  let entries = cache.get(cacheKey) || new Map();
+  cache.set(cacheKey, entries);
+  if (config.maxSize != null && entries.size >= config.maxSize) {
+    // Maps iterate in insertion order, so this evicts the oldest result
+    entries.delete(entries.keys().next().value);
+  }
+  entries.set(getValidationCacheKey(config, value, formData), {
+    result,
+    expiresAt: config.ttl != null ? Date.now() + config.ttl : Infinity,
+  });
+}
+
+// Re-determine validity.valid after individual validations have changed
+function isValidityValid(validity: ExtendedValidityState) {
+  return Object.entries(validity).every(
+    ([name, isInvalid]) => name === "valid" || !isInvalid
+  );
+}
+
+// Perform form-level validations, optionally limited to those applying to a
+// single input.  Called in a useEffect client side and from
+// validateServerFormData server-side
+async function validateForm(
+  formDefinition: FormDefinition,
+  formData: FormData,
+  inputName?: string,
+  signal?: AbortSignal
+): Promise<FormValidityState> {
+  let validity: FormValidityState = { valid: true };
+  for (let [name, formValidation] of Object.entries(
+    formDefinition.formValidations || {}
+  )) {
+    if (
+      (inputName != null &&
+        !isFormValidationInput(formValidation, inputName)) ||
+      isFormValidationSkipped(formValidation, formDefinition, formData)
+    ) {
+      continue;
+    }
+    let isInvalid = !(await formValidation.validate(formData, { signal }));
+    validity[name] = isInvalid;
+    validity.valid = validity.valid && !isInvalid;
+  }
   return validity;
 }
 
+// Does a form-level validation apply to the given input?  Repeated definitions
+// (i.e., "items[].qty") apply to all indexed inputs (i.e., "items[2].qty")
+function isFormValidationInput(formValidation: FormValidation, name: string) {
+  return (
+    formValidation.inputs?.some(
+      (n) => n === name || n === normalizeInputName(name)
+    ) === true
+  );
+}
+
+// Form-level validations are skipped along with all of the inputs they apply to
+function isFormValidationSkipped(
+  formValidation: FormValidation,
+  formDefinition: FormDefinition,
+  formData: FormData
+) {
+  let names = formValidation.inputs || [];
+  return (
+    names.length > 0 &&
+    names.every((n) => isInputSkipped(formDefinition.inputs[n], formData))
+  );
+}
+
+// Run form-level validations once per form change on behalf of all of the
+// controls (and useFormValidity) within a <FormProvider>.  Callers requesting
+// the same formData share a single run, which is only aborted once every
+// caller has aborted.
+function createFormValidator() {
+  let current: {
+    formDefinition: FormDefinition;
+    key: string;
+    promise: Promise<FormValidityState>;
+    controller: AbortController;
+    callers: number;
+    settled: boolean;
+  } | null = null;
+
+  return async function getFormValidity(
+    formDefinition: FormDefinition,
+    formData: FormData,
+    inputName?: string,
+    signal?: AbortSignal
+  ): Promise<FormValidityState> {
+    let key = JSON.stringify(
+      Array.from(formData.entries()).map(([k, v]) => [
+        k,
+        typeof v === "string" ? v : [v.name, v.size, v.type],
+      ])
+    );
+    if (
+      !current ||
+      current.formDefinition !== formDefinition ||
+      current.key !== key ||
+      current.controller.signal.aborted
+    ) {
+      let controller = new AbortController();
+      let run: NonNullable<typeof current> = {
+        formDefinition,
+        key,
+        controller,
+        callers: 0,
+        settled: false,
+        promise: validateForm(
+          formDefinition,
+          formData,
+          undefined,
+          controller.signal
+        ),
+      };
+      run.promise.then(
+        () => (run.settled = true),
+        () => (run.settled = true)
+      );
+      current = run;
+    }
+    let run = current;
+    run.callers++;
+    signal?.addEventListener(
+      "abort",
+      () => {
+        run.callers--;
+        // Effects re-running for the same change re-join the run before the
+        // microtask, so only abort runs nobody is waiting on anymore
+        queueMicrotask(() => {
+          if (run.callers === 0 && !run.settled) {
+            run.controller.abort();
+          }
+        });
+      },
+      { once: true }
+    );
+    let formValidity = await run.promise;
+    if (inputName == null) {
+      return formValidity;
+    }
+    // Limit the results to the validations applying to this input
+    let inputFormValidity: FormValidityState = { valid: true };
+    for (let [name, formValidation] of Object.entries(
+      formDefinition.formValidations || {}
+    )) {
+      if (
+        isFormValidationInput(formValidation, inputName) &&
+        name in formValidity
+      ) {
+        inputFormValidity[name] = formValidity[name];
+        inputFormValidity.valid =
+          inputFormValidity.valid && !formValidity[name];
+      }
+    }
+    return inputFormValidity;
+  };
+}
+
+type FormValidator = ReturnType<typeof createFormValidator>;
+
+// Merge form-level validation results into an input's validity
+function applyFormValidity(
+  validity: ExtendedValidityState,
+  formValidity: FormValidityState
+) {
+  for (let [name, isInvalid] of Object.entries(formValidity)) {
+    if (name !== "valid") {
+      validity[name] = isInvalid;
+      validity.valid = validity.valid && !isInvalid;
+    }
+  }
+}
+
+export interface ValidateServerFormDataOpts {
+  // Usually request.signal, passed along to custom validations so they can
+  // cancel in-flight work if the request is aborted
+  signal?: AbortSignal;
+  // Locale (i.e., from the Accept-Language header) and catalogs used to
+  // resolve messages
+  locale?: string;
+  messages?: MessageCatalogs;
+}
+
 // Perform all validations for a submitted form on the server
 export async function validateServerFormData<T extends FormDefinition>(
   formData: FormData,
   formDefinition: T,
-  serverCustomValidations?: ServerOnlyCustomValidations<T>
+  serverCustomValidations?: ServerOnlyCustomValidations<T>,
+  opts?: ValidateServerFormDataOpts
 ): Promise<ServerFormInfo<T>> {
-  // Unsure if there's a better way to do this type of object mapping while
-  // keeping the keys strongly typed - but this currently complains since we
-  // haven't filled in the required keys yet
-  // @ts-expect-error
-  const inputs: ServerFormInfo["inputs"] = {};
-  const submittedValues = {} as ServerFormInfo<T>["submittedValues"];
+  // Results are collected by input name and then nested for any path-style
+  // input names (i.e., "shipping.street" or "items[2].qty")
+  const inputs: Record<string, InputInfo | InputInfo[]> = {};
+  const submittedValues: Record<string, unknown> = {};
+  // Custom validation results are only cached for the duration of this call
+  const cache: ValidationResultCache = new Map();
   let valid = true;
 
-  let entries = Object.entries(formDefinition.inputs) as Array<
-    [KeyOf<T["inputs"]>, ControlDefinition]
-  >;
+  // Always assume inputs have been modified during SSR validation
+  let getInputInfo = async (
+    inputName: string,
+    inputDef: ControlDefinition,
+    value: string | null,
+    customValidations: CustomValidations | undefined,
+    files?: FileInfo[]
+  ): Promise<InputInfo> => {
+    let { validity, validationFailures, warnings } = await validateInput(
+      inputName,
+      inputDef.validationAttrs,
+      customValidations,
+      value ?? "",
+      undefined,
+      formData,
+      { signal: opts?.signal, cache, files }
+    );
+    let warningMessages = getCurrentWarningMessages(
+      formDefinition,
+      inputName,
+      value ?? "",
+      warnings,
+      validationFailures,
+      { locale: opts?.locale, messages: opts?.messages }
+    );
+    return {
+      value,
+      touched: true,
+      dirty: true,
+      state: "done",
+      validity,
+      ...(validationFailures ? { validationFailures } : {}),
+      ...(warningMessages ? { warnings: warningMessages } : {}),
+    };
+  };
+
+  // Server-only validations are keyed by definition name
+  let getCustomValidations = (
+    inputName: string,
+    inputDef: ControlDefinition
+  ): CustomValidations => ({
+    ...inputDef.customValidations,
+    ...(serverCustomValidations as Record<string, CustomValidations>)?.[
+      getDefinitionName(formDefinition, inputName)
+    ],
+  });
+
+  let entries = getInputEntries(formDefinition, formData);
   await Promise.all(
     entries.map(async ([inputName, inputDef]) => {
-      if (!formData.has(inputName)) {
-        // No values submitted
-        let inputInfo: InputInfo = {
-          value: null,
+      let isMultipleEmail =
+        (inputDef.element == null || inputDef.element === "input") &&
+        inputDef.validationAttrs?.type === "email" &&
+        inputDef.validationAttrs?.multiple === true;
+
+      if (isInputSkipped(inputDef, formData)) {
+        // Skipped (or disabled) inputs are not validated, not submitted, and
+        // don't impact the validity of the form.  We retain the value so the
+        // client can re-populate it.
+        let value = formData.get(inputName);
+        inputs[inputName] = {
+          value: typeof value === "string" ? value : null,
           touched: true,
           dirty: true,
-          state: "done",
-          validity: await validateInput(
-            inputName,
-            inputDef.validationAttrs,
-            inputDef.customValidations,
-            "",
-            undefined,
-            formData
-          ),
+          state: "skipped",
         };
+        submittedValues[inputName] = null;
+      } else if (
+        (inputDef.element == null || inputDef.element === "input") &&
+        inputDef.validationAttrs?.type === "file"
+      ) {
+        // File inputs are validated from the submitted File entries, and we
+        // submit their metadata since the files can't be sent back
+        let files = getSubmittedFiles(formData.getAll(inputName));
+        let inputInfo = await getInputInfo(
+          inputName,
+          inputDef,
+          getFileInputValue(files),
+          getCustomValidations(inputName, inputDef),
+          files
+        );
+        inputs[inputName] = inputInfo;
+        submittedValues[inputName] = inputDef.validationAttrs.multiple
+          ? files
+          : files[0] ?? null;
+        valid = valid && inputInfo.validity?.valid === true;
+      } else if (!formData.has(inputName)) {
+        // No values submitted
+        let inputInfo = await getInputInfo(
+          inputName,
+          inputDef,
+          null,
+          inputDef.customValidations
+        );
         inputs[inputName] = inputInfo;
-        // FIXME: ???
-        // @ts-expect-error
         submittedValues[inputName] = null;
         valid = valid && inputInfo.validity?.valid === true;
       } else if (
@@ -585,9 +2139,7 @@ export async function validateServerFormData<T extends FormDefinition>(
         // <select name="thing" multiple>
         (inputDef.element === "select" && inputDef.validationAttrs?.multiple) ||
         // <input type="email" name="thing" multiple>
-        ((inputDef.element == null || inputDef.element === "input") &&
-          inputDef.validationAttrs?.type === "email" &&
-          inputDef.validationAttrs?.multiple) ||
+        isMultipleEmail ||
         // Checkboxes are handled slightly different from normal "render multiple
         // input controls" since they're inherently "choose one or more" behavior
         // like a <select multiple>.
@@ -601,33 +2153,29 @@ export async function validateServerFormData<T extends FormDefinition>(
         let values = formData.getAll(inputName);
         for (let value of values) {
           if (typeof value === "string") {
-            // Always assume inputs have been modified during SSR validation
-            let inputInfo: InputInfo = {
+            // Multiple emails are submitted as a single comma-separated value
+            // which the browser sanitizes prior to validation.  We validate
+            // that value as a whole but submit the individual addresses.
+            let submitted = [value];
+            if (isMultipleEmail) {
+              value = sanitizeEmailList(value);
+              submitted = parseEmailList(value);
+            }
+            let inputInfo = await getInputInfo(
+              inputName,
+              inputDef,
               value,
-              touched: true,
-              dirty: true,
-              state: "done",
-              validity: await validateInput(
-                inputName,
-                inputDef.validationAttrs,
-                {
-                  ...inputDef.customValidations,
-                  ...serverCustomValidations?.[inputName],
-                },
-                value,
-                undefined,
-                formData
-              ),
-            };
-            if (Array.isArray(submittedValues[inputName])) {
-              // @ts-expect-error
-              submittedValues[inputName].push(value);
+              getCustomValidations(inputName, inputDef)
+            );
+            let existingValues = submittedValues[inputName];
+            if (Array.isArray(existingValues)) {
+              existingValues.push(...submitted);
             } else {
-              // @ts-expect-error
-              submittedValues[inputName] = [value];
+              submittedValues[inputName] = submitted;
             }
-            if (Array.isArray(inputs[inputName])) {
-              inputs[inputName].push(inputInfo);
+            let existingInputInfo = inputs[inputName];
+            if (Array.isArray(existingInputInfo)) {
+              existingInputInfo.push(inputInfo);
             } else {
               inputs[inputName] = [inputInfo];
             }
@@ -642,26 +2190,13 @@ export async function validateServerFormData<T extends FormDefinition>(
         let value = formData.get(inputName);
         if (typeof value === "string") {
           // Single value input
-          let inputInfo: InputInfo = {
+          let inputInfo = await getInputInfo(
+            inputName,
+            inputDef,
             value,
-            touched: true,
-            dirty: true,
-            state: "done",
-            validity: await validateInput(
-              inputName,
-              inputDef.validationAttrs,
-              {
-                ...inputDef.customValidations,
-                ...serverCustomValidations?.[inputName],
-              },
-              value,
-              undefined,
-              formData
-            ),
-          };
+            getCustomValidations(inputName, inputDef)
+          );
           inputs[inputName] = inputInfo;
-          // FIXME: ???
-          // @ts-expect-error
           submittedValues[inputName] = value;
           valid = valid && inputInfo.validity?.valid === true;
         } else {
@@ -672,7 +2207,765 @@ export async function validateServerFormData<T extends FormDefinition>(
       }
     })
   );
-  return { submittedValues, inputs, valid };
+
+  // Form-level validations are reported on their own and on each input they
+  // apply to
+  let formValidity = await validateForm(
+    formDefinition,
+    formData,
+    undefined,
+    opts?.signal
+  );
+  for (let [name, formValidation] of Object.entries(
+    formDefinition.formValidations || {}
+  )) {
+    for (let inputName of Object.keys(inputs)) {
+      if (
+        !isFormValidationInput(formValidation, inputName) ||
+        !(name in formValidity)
+      ) {
+        continue;
+      }
+      let inputInfo = inputs[inputName];
+      let inputInfos = Array.isArray(inputInfo) ? inputInfo : [inputInfo];
+      for (let info of inputInfos) {
+        if (info?.validity) {
+          applyFormValidity(info.validity, {
+            valid: !formValidity[name],
+            [name]: formValidity[name],
+          });
+        }
+      }
+    }
+  }
+  valid = valid && formValidity.valid;
+
+  // Row counts are checked against the field array limits, since the client
+  // only enforces them through append()/remove()
+  let nestedInputs = nestPaths(inputs, formDefinition);
+  let localization = { locale: opts?.locale, messages: opts?.messages };
+  let fieldArrayErrors = getFieldArrayErrors(
+    formDefinition,
+    nestedInputs,
+    localization
+  );
+  if (fieldArrayErrors) {
+    for (let key of Object.keys(fieldArrayErrors)) {
+      formValidity[key] = true;
+    }
+    formValidity.valid = false;
+    valid = false;
+  }
+
+  // Resolve error messages once form-level validations have been applied, so
+  // consumers of the action data receive the same messages the client renders
+  for (let [inputName, inputInfo] of Object.entries(inputs)) {
+    let inputDef = getInputDefinition(formDefinition, inputName);
+    let inputInfos = Array.isArray(inputInfo) ? inputInfo : [inputInfo];
+    for (let info of inputInfos) {
+      if (inputDef && info.validity && !info.validity.valid) {
+        info.errorMessages = getCurrentErrorMessages(
+          formDefinition,
+          inputName,
+          info.value ?? "",
+          info.validity,
+          calculateValidationAttrs(inputDef.validationAttrs, formData),
+          undefined,
+          info.validationFailures,
+          localization
+        );
+      }
+    }
+  }
+
+  let parsedValues: Record<string, unknown> = {};
+  for (let [inputName, inputDef] of entries) {
+    parsedValues[inputName] = getParsedValue(
+      inputDef,
+      submittedValues[inputName],
+      inputs[inputName]
+    );
+  }
+
+  return {
+    submittedValues: nestPaths(
+      submittedValues,
+      formDefinition
+    ) as ServerFormInfo<T>["submittedValues"],
+    parsedValues: nestPaths(
+      parsedValues,
+      formDefinition
+    ) as ServerFormInfo<T>["parsedValues"],
+    inputs: nestedInputs as ServerFormInfo<T>["inputs"],
+    formValidity,
+    formErrorMessages: fieldArrayErrors
+      ? {
+          ...getFormErrorMessages(formDefinition, formValidity, localization),
+          ...fieldArrayErrors,
+        }
+      : getFormErrorMessages(formDefinition, formValidity, localization),
+    valid,
+  };
+}
+
+// Check the number of submitted rows for each field array, returning error
+// messages keyed by "<name>.minItems"/"<name>.maxItems" for violated limits
+function getFieldArrayErrors(
+  formDefinition: FormDefinition,
+  nestedInputs: unknown,
+  localization: Localization
+): Record<string, string> | undefined {
+  let errors: Record<string, string> = {};
+  for (let [name, { minItems, maxItems }] of Object.entries(
+    formDefinition.fieldArrays || {}
+  )) {
+    let rows = getPath(nestedInputs, name);
+    let count = Array.isArray(rows) ? rows.length : 0;
+    let [limit, key, defaultMessage] =
+      minItems != null && count < minItems
+        ? [minItems, "minItems", `At least ${minItems} items are required`]
+        : maxItems != null && count > maxItems
+        ? [maxItems, "maxItems", `At most ${maxItems} items are allowed`]
+        : [];
+    if (limit == null || key == null || defaultMessage == null) {
+      continue;
+    }
+    let message =
+      formDefinition.errorMessages?.[`${name}.${key}`] ||
+      getCatalogMessage(localization, null, `${name}.${key}`) ||
+      defaultMessage;
+    errors[`${name}.${key}`] = formatMessage(
+      message,
+      String(limit),
+      name,
+      String(count),
+      localization.locale
+    );
+  }
+  return Object.keys(errors).length > 0 ? errors : undefined;
+}
+
+// Convert a single submitted value for parsedValues
+function parseSubmittedValue(inputDef: ControlDefinition, value: string) {
+  if (inputDef.parse) {
+    return inputDef.parse(value);
+  }
+  let type = IsInputDefinition(inputDef)
+    ? inputDef.validationAttrs?.type
+    : null;
+  switch (type) {
+    case "number":
+    case "range":
+      return parseFloatingPointNumber(value);
+    case "date":
+    case "month":
+    case "week":
+    case "time":
+    case "datetime-local":
+      return parseInputValueAsDate(type, value);
+    default:
+      return value;
+  }
+}
+
+// Convert the submitted value(s) of an input for parsedValues
+function getParsedValue(
+  inputDef: ControlDefinition,
+  submittedValue: unknown,
+  inputInfo: InputInfo | InputInfo[] | undefined
+): unknown {
+  if (!Array.isArray(inputInfo) && inputInfo?.state === "skipped") {
+    return null;
+  }
+  let type = IsInputDefinition(inputDef)
+    ? inputDef.validationAttrs?.type
+    : null;
+  if (type === "file") {
+    return submittedValue;
+  }
+  if (type === "checkbox") {
+    let values = Array.isArray(submittedValue) ? submittedValue : [];
+    // Single checkboxes (multiple: false) are parsed as their checked state,
+    // while checkbox groups retain the checked values
+    return inputDef.multiple === false && !inputDef.parse
+      ? values.length > 0
+      : values.map((v) => parseSubmittedValue(inputDef, v));
+  }
+  if (Array.isArray(submittedValue)) {
+    return submittedValue.map((v) => parseSubmittedValue(inputDef, v));
+  }
+  if (typeof submittedValue !== "string") {
+    return null;
+  }
+  return parseSubmittedValue(inputDef, submittedValue);
+}
+
+// Immutably update the value at a path, copying each object/array along it
+function updatePath(
+  obj: unknown,
+  segments: Array<string | number>,
+  updater: (value: unknown) => unknown
+): unknown {
+  if (segments.length === 0) {
+    return updater(obj);
+  }
+  let [segment, ...rest] = segments;
+  let copy: Record<string, unknown> | unknown[] = Array.isArray(obj)
+    ? [...obj]
+    : obj != null && typeof obj === "object"
+    ? { ...obj }
+    : typeof segment === "number"
+    ? []
+    : {};
+  if (Array.isArray(copy)) {
+    copy[Number(segment)] = updatePath(copy[Number(segment)], rest, updater);
+  } else {
+    copy[segment] = updatePath(copy[segment], rest, updater);
+  }
+  return copy;
+}
+
+/**
+ * Attach an error to an input in a ServerFormInfo, i.e., for a failure that
+ * occurs after validation (a unique constraint, a declined payment, etc.).
+ * Returns a new invalid ServerFormInfo, which renders the error the same as
+ * any other validation.  Use `index` for inputs submitted multiple times.
+ * The input must be present in the ServerFormInfo, which includes every input
+ * in the form definition (and every submitted row of repeated inputs).
+ */
+export function addServerError<T extends FormDefinition>(
+  serverFormInfo: ServerFormInfo<T>,
+  name: InputName<T>,
+  key: string,
+  message: string,
+  opts?: { index?: number }
+): ServerFormInfo<T> {
+  let addError = (info: InputInfo | undefined): InputInfo => ({
+    value: null,
+    touched: true,
+    dirty: true,
+    ...info,
+    state: "done",
+    validity: {
+      ...(info?.validity || getBaseValidityState()),
+      [key]: true,
+      valid: false,
+    },
+    validationFailures: {
+      ...info?.validationFailures,
+      [key]: { valid: false, message },
+    },
+    errorMessages: { ...info?.errorMessages, [key]: message },
+  });
+
+  let segments = parsePath(name);
+  let existing = getPath(serverFormInfo.inputs, name);
+  invariant(
+    existing != null,
+    `addServerError() could not find a corresponding input for "${name}"`
+  );
+  if (Array.isArray(existing)) {
+    let index = opts?.index;
+    invariant(
+      index != null && index >= 0 && index < existing.length,
+      `Expected a valid "index" value for multiple-submission field "${name}"`
+    );
+    segments.push(index);
+  }
+  return {
+    ...serverFormInfo,
+    inputs: updatePath(serverFormInfo.inputs, segments, (info) =>
+      addError(info as InputInfo | undefined)
+    ) as ServerFormInfo<T>["inputs"],
+    valid: false,
+  };
+}
+
+/**
+ * Attach a form-level error to a ServerFormInfo, reported through
+ * `formValidity`/`formErrorMessages` like a failed form-level validation.
+ * Returns a new invalid ServerFormInfo.
+ */
+export function addServerFormError<T extends FormDefinition>(
+  serverFormInfo: ServerFormInfo<T>,
+  key: string,
+  message: string
+): ServerFormInfo<T> {
+  return {
+    ...serverFormInfo,
+    formValidity: { ...serverFormInfo.formValidity, [key]: true, valid: false },
+    formErrorMessages: { ...serverFormInfo.formErrorMessages, [key]: message },
+    valid: false,
+  };
+}
+
+// Optional values are submitted as empty strings, which we validate as
+// undefined the same way the browser skips validations for empty values
+function getSchemaInput(value: string, optional: boolean) {
+  return value === "" && optional ? undefined : value;
+}
+
+// Describe a string schema's constraints as JSON Schema.  We use the
+// Standard JSON Schema extension when the vendor implements it, and otherwise
+// introspect the schema for vendors that predate it (Zod 3, Valibot and older
+// ArkType releases).  Returns undefined for anything we don't recognize.
+function getSchemaJSONSchema(schema: StandardSchemaV1): unknown {
+  let standard = schema["~standard"];
+  if (standard.jsonSchema) {
+    return standard.jsonSchema.input({ target: "draft-2020-12" });
+  }
+  let vendorSchema = schema as unknown as Record<string, unknown>;
+  if (
+    standard.vendor === "arktype" &&
+    typeof vendorSchema.toJsonSchema === "function"
+  ) {
+    return vendorSchema.toJsonSchema();
+  }
+  if (standard.vendor === "zod") {
+    return getZod3JSONSchema(vendorSchema);
+  }
+  if (standard.vendor === "valibot") {
+    return getValibotJSONSchema(vendorSchema);
+  }
+  return undefined;
+}
+
+// RegExp flags can't be expressed in a pattern attribute
+function getRegExpPattern(regex: unknown) {
+  return regex instanceof RegExp && /^u?$/.test(regex.flags)
+    ? regex.source
+    : undefined;
+}
+
+// Zod 3 string schemas store their constraints as `_def.checks`
+function getZod3JSONSchema(
+  zodSchema: Record<string, unknown>
+): JSONSchema | undefined {
+  let def = zodSchema._def as
+    | {
+        typeName?: string;
+        innerType?: Record<string, unknown>;
+        checks?: Array<{ kind: string; value?: unknown; regex?: unknown }>;
+      }
+    | undefined;
+  if (
+    def?.innerType &&
+    ["ZodOptional", "ZodNullable", "ZodDefault"].includes(def.typeName || "")
+  ) {
+    return getZod3JSONSchema(def.innerType);
+  }
+  if (def?.typeName !== "ZodString") {
+    return undefined;
+  }
+  let jsonSchema: JSONSchema = { type: "string" };
+  for (let check of def.checks || []) {
+    if (typeof check.value === "number") {
+      if (check.kind === "min" || check.kind === "length") {
+        jsonSchema.minLength = check.value;
+      }
+      if (check.kind === "max" || check.kind === "length") {
+        jsonSchema.maxLength = check.value;
+      }
+    } else if (check.kind === "email") {
+      jsonSchema.format = "email";
+    } else if (check.kind === "url") {
+      jsonSchema.format = "uri";
+    } else if (check.kind === "regex" && getRegExpPattern(check.regex)) {
+      jsonSchema.pattern = getRegExpPattern(check.regex);
+    }
+  }
+  return jsonSchema;
+}
+
+// Valibot string schemas store their constraints as actions in `pipe`
+function getValibotJSONSchema(
+  valibotSchema: Record<string, unknown>
+): JSONSchema | undefined {
+  if (
+    ["optional", "nullable", "nullish", "undefinedable"].includes(
+      String(valibotSchema.type)
+    ) &&
+    valibotSchema.wrapped != null &&
+    typeof valibotSchema.wrapped === "object"
+  ) {
+    return getValibotJSONSchema(
+      valibotSchema.wrapped as Record<string, unknown>
+    );
+  }
+  if (valibotSchema.type !== "string") {
+    return undefined;
+  }
+  let jsonSchema: JSONSchema = { type: "string" };
+  let pipe = Array.isArray(valibotSchema.pipe) ? valibotSchema.pipe : [];
+  for (let action of pipe as Array<{ type?: string; requirement?: unknown }>) {
+    if (typeof action.requirement === "number") {
+      if (action.type === "min_length" || action.type === "length") {
+        jsonSchema.minLength = action.requirement;
+      }
+      if (action.type === "max_length" || action.type === "length") {
+        jsonSchema.maxLength = action.requirement;
+      }
+    } else if (action.type === "email") {
+      jsonSchema.format = "email";
+    } else if (action.type === "url") {
+      jsonSchema.format = "uri";
+    } else if (
+      action.type === "regex" &&
+      getRegExpPattern(action.requirement)
+    ) {
+      jsonSchema.pattern = getRegExpPattern(action.requirement);
+    }
+  }
+  return jsonSchema;
+}
+
+// Derive the native validation attributes expressible from a schema's JSON
+// Schema
+function getSchemaValidationAttrs(
+  schema: StandardSchemaV1
+): Record<string, string | number> {
+  let jsonSchema: unknown;
+  try {
+    jsonSchema = getSchemaJSONSchema(schema);
+  } catch (e) {
+    // Schemas that can't be represented as JSON Schema are validated by the
+    // schema itself
+  }
+  if (
+    jsonSchema == null ||
+    typeof jsonSchema !== "object" ||
+    !("type" in jsonSchema) ||
+    jsonSchema.type !== "string"
+  ) {
+    return {};
+  }
+
+  let attrs: Record<string, string | number> = {};
+  for (let [key, value] of Object.entries(jsonSchema)) {
+    if (key === "minLength" && typeof value === "number") {
+      attrs.minLength = value;
+    } else if (key === "maxLength" && typeof value === "number") {
+      attrs.maxLength = value;
+    } else if (key === "format" && value === "email") {
+      attrs.type = "email";
+    } else if (key === "format" && value === "uri") {
+      attrs.type = "url";
+    } else if (key === "pattern" && typeof value === "string") {
+      // JSON Schema patterns aren't anchored, but pattern attributes must
+      // match the entire value
+      try {
+        compilePattern(`.*(?:${value}).*`);
+        attrs.pattern = `.*(?:${value}).*`;
+      } catch (e) {
+        // Patterns the browser can't compile are left to the schema
+      }
+    }
+  }
+  return attrs;
+}
+
+// Check a value against the validation attributes derived from a schema
+function isValidForSchemaAttrs(
+  value: string,
+  attrs: Record<string, string | number | boolean>
+) {
+  return Object.entries(attrs).every(
+    ([attr, attrValue]) =>
+      builtInValidations[attr as BuiltInValidationAttr]?.validate(
+        value,
+        String(attrValue),
+        attrs
+      ) ?? true
+  );
+}
+
+// Schemas are probed once with `undefined` to determine whether the input is
+// required.  This is the only time a schema is run outside of validation, so
+// we only use a synchronous result and treat anything else as optional.
+function isSchemaOptional(schema: StandardSchemaV1) {
+  let emptyResult;
+  try {
+    emptyResult = schema["~standard"].validate(undefined);
+  } catch (e) {
+    return true;
+  }
+  if (emptyResult instanceof Promise) {
+    emptyResult.catch(() => {});
+    return true;
+  }
+  return !emptyResult.issues;
+}
+
+/**
+ * Derive a form definition from a set of Standard Schemas keyed by input name
+ * (i.e., the `shape` of a Zod object schema).  String length, regex, email
+ * and url constraints become validation attributes so they're rendered onto
+ * the inputs, and anything else (refinements, coercions, etc.) is validated
+ * via a `schema` custom validation.  The schema output is used for
+ * parsedValues.
+ */
+export function getFormDefinitionFromSchema<
+  Schemas extends Record<string, StandardSchemaV1>
+>(schemas: Schemas): SchemaFormDefinition<Schemas> {
+  let inputs: Record<string, InputDefinition> = {};
+  for (let [inputName, schema] of Object.entries(schemas)) {
+    let optional = isSchemaOptional(schema);
+    let validationAttrs = {
+      ...getSchemaValidationAttrs(schema),
+      ...(optional ? {} : { required: true }),
+    };
+    inputs[inputName] = {
+      validationAttrs,
+      parse(value) {
+        let result = schema["~standard"].validate(
+          getSchemaInput(value, optional)
+        );
+        // Leave invalid values as submitted
+        return result instanceof Promise || result.issues
+          ? value
+          : result.value;
+      },
+      customValidations: {
+        async schema(value) {
+          // Constraints already failing natively don't need a second error
+          if (!isValidForSchemaAttrs(value, validationAttrs)) {
+            return true;
+          }
+          let result = await schema["~standard"].validate(
+            getSchemaInput(value, optional)
+          );
+          return result.issues
+            ? { valid: false, message: result.issues[0]?.message }
+            : true;
+        },
+      },
+    };
+  }
+  return { inputs } as SchemaFormDefinition<Schemas>;
+}
+
+// Convert the validations for a single input into a JSON Schema, tracking
+// anything that can't be expressed portably
+function getInputJSONSchema(
+  inputDef: ControlDefinition,
+  fieldArrayDef: FieldArrayDefinition | undefined
+) {
+  let nonPortable: string[] = [];
+  let attrs: Record<string, unknown> = inputDef.validationAttrs || {};
+  let type = IsInputDefinition(inputDef)
+    ? inputDef.validationAttrs?.type
+    : undefined;
+  let isArray = inputDef.multiple === true || attrs.multiple === true;
+  let isNumeric = type === "number" || type === "range";
+  let required = false;
+
+  let schema: JSONSchema = { type: "string" };
+  if (isNumeric) {
+    schema.type = "number";
+  } else if (type === "email" || type === "url" || type === "date") {
+    schema.format = { email: "email", url: "uri", date: "date" }[type];
+  } else if (type === "file") {
+    schema.format = "binary";
+  }
+
+  for (let [attr, value] of Object.entries(attrs)) {
+    if (isDynamicAttr(value)) {
+      nonPortable.push(`validationAttrs.${attr}`);
+    } else if (value == null || attr === "type" || attr === "multiple") {
+      continue;
+    } else if (attr === "required") {
+      required = value === true;
+    } else if (attr === "minLength" || attr === "maxLength") {
+      schema[attr] = Number(value);
+    } else if (attr === "pattern") {
+      // Pattern attributes must match the entire value
+      schema.pattern = `^(?:${value})$`;
+    } else if (isNumeric && (attr === "min" || attr === "max")) {
+      let num = parseFloatingPointNumber(String(value));
+      if (num != null) {
+        schema[attr === "min" ? "minimum" : "maximum"] = num;
+      }
+    } else if (isNumeric && attr === "step") {
+      if (String(value).toLowerCase() === "any") {
+        continue;
+      }
+      // Steps are counted from min, which multipleOf can only express when
+      // min is itself a multiple of the step
+      let step = parseFloatingPointNumber(String(value));
+      let min =
+        attrs.min == null
+          ? 0
+          : isDynamicAttr(attrs.min)
+          ? null
+          : parseFloatingPointNumber(String(attrs.min));
+      if (
+        step != null &&
+        step > 0 &&
+        min != null &&
+        isStepAligned(min, 0, step)
+      ) {
+        schema.multipleOf = step;
+      } else {
+        nonPortable.push(`validationAttrs.${attr}`);
+      }
+    } else {
+      nonPortable.push(`validationAttrs.${attr}`);
+    }
+  }
+  if (required && schema.type === "string" && type !== "checkbox") {
+    // Empty values are submitted, so required strings must be non-empty
+    schema.minLength = schema.minLength || 1;
+  }
+
+  // Single checkboxes (multiple: false) are represented by their checked
+  // state, while checkbox groups submit their checked values
+  let isSingleCheckbox = type === "checkbox" && inputDef.multiple === false;
+  if (isSingleCheckbox) {
+    schema = required ? { type: "boolean", const: true } : { type: "boolean" };
+  } else if (isArray || type === "checkbox") {
+    schema = { type: "array", items: schema };
+    let minItems = fieldArrayDef?.minItems ?? (required ? 1 : undefined);
+    if (minItems != null) {
+      schema.minItems = minItems;
+    }
+    if (fieldArrayDef?.maxItems != null) {
+      schema.maxItems = fieldArrayDef.maxItems;
+    }
+  }
+  if (inputDef.when) {
+    nonPortable.push("when");
+  }
+  if (typeof inputDef.disabled === "function") {
+    nonPortable.push("disabled");
+  }
+  nonPortable.push(
+    ...Object.keys(inputDef.customValidations || {}).map(
+      (name) => `customValidations.${name}`
+    )
+  );
+  if (nonPortable.length > 0) {
+    schema[NON_PORTABLE_KEYWORD] = nonPortable;
+  }
+
+  // Skipped and disabled inputs aren't submitted
+  return {
+    schema,
+    required: required && !inputDef.when && !inputDef.disabled,
+  };
+}
+
+/**
+ * Convert a form definition into a JSON Schema describing the submitted form
+ * data, with nested and repeated input names converted into objects and
+ * arrays.  Number and range inputs are described as numbers and checkboxes
+ * as their checked values (or state), like parsedValues.  Validations that can't
+ * be expressed in JSON Schema (dynamic attributes, custom validations, etc.)
+ * are listed under the "x-rvs-non-portable" keyword by their path in the form
+ * definition.
+ */
+export function toJSONSchema(formDefinition: FormDefinition): JSONSchema {
+  let root: JSONSchema = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    type: "object",
+    properties: {},
+  };
+
+  for (let [inputName, inputDef] of Object.entries(formDefinition.inputs)) {
+    let { schema, required } = getInputJSONSchema(
+      inputDef,
+      formDefinition.fieldArrays?.[inputName]
+    );
+    let segments = inputName.split(".");
+    let parent = root;
+    let path: string[] = [];
+    // Objects containing this input, which are required if it is
+    let ancestors: Array<{ schema: JSONSchema; key: string }> = [];
+    segments.forEach((segment, i) => {
+      let isLast = i === segments.length - 1;
+      let isRepeated = !isLast && segment.endsWith("[]");
+      let key = isRepeated ? segment.slice(0, -2) : segment;
+      let properties = (parent.properties = parent.properties || {});
+      path.push(key);
+      if (isRepeated) {
+        let arraySchema = (properties[key] = properties[key] || {
+          type: "array",
+          items: isLast ? schema : { type: "object", properties: {} },
+        });
+        let { minItems, maxItems } =
+          formDefinition.fieldArrays?.[path.join(".")] || {};
+        if (minItems != null) {
+          arraySchema.minItems = minItems;
+        }
+        if (maxItems != null) {
+          arraySchema.maxItems = maxItems;
+        }
+        // Arrays with a minimum number of rows are always required, but
+        // requirements within the rows don't extend beyond them
+        ancestors.push({ schema: parent, key });
+        if (minItems) {
+          ancestors.forEach((a) => addJSONSchemaRequired(a.schema, a.key));
+        }
+        ancestors = [];
+        parent = arraySchema.items || {};
+      } else if (isLast) {
+        properties[key] = schema;
+        ancestors.push({ schema: parent, key });
+      } else {
+        ancestors.push({ schema: parent, key });
+        parent = properties[key] = properties[key] || {
+          type: "object",
+          properties: {},
+        };
+      }
+    });
+    if (required) {
+      ancestors.forEach((a) => addJSONSchemaRequired(a.schema, a.key));
+    }
+  }
+
+  let formValidations = Object.keys(formDefinition.formValidations || {});
+  if (formValidations.length > 0) {
+    root[NON_PORTABLE_KEYWORD] = formValidations.map(
+      (name) => `formValidations.${name}`
+    );
+  }
+  return root;
+}
+
+function addJSONSchemaRequired(schema: JSONSchema, key: string) {
+  schema.required = schema.required || [];
+  if (!schema.required.includes(key)) {
+    schema.required.push(key);
+  }
+}
+
+// Map the current name/index of a field array row back to the name/index it
+// was submitted with, so that server results stay with the right row after
+// rows are added, removed or reordered.  Returns null for rows added since the
+// submission.
+function getServerLookup(
+  name: string,
+  index: number | undefined,
+  fieldArrays: FieldArrayServerIndexes | undefined
+): { name: string; index?: number } | null {
+  for (let [arrayName, serverIndexes] of Object.entries(fieldArrays || {})) {
+    if (name === arrayName && index != null) {
+      let serverIndex = serverIndexes[index];
+      return serverIndex == null ? null : { name, index: serverIndex };
+    }
+    let prefix = `${arrayName}[`;
+    let match = name.startsWith(prefix)
+      ? /^(\d+)\]/.exec(name.slice(prefix.length))
+      : null;
+    if (match) {
+      let serverIndex = serverIndexes[Number(match[1])];
+      let rest = name.slice(prefix.length + match[1].length);
+      return serverIndex == null
+        ? null
+        : { name: `${prefix}${serverIndex}${rest}`, index };
+    }
+  }
+  return { name, index };
 }
 
 // Determine the defaultValue for a rendered input, properly handling inputs
@@ -683,17 +2976,23 @@ function getInputDefaultValue<T extends FormDefinition>(
   serverFormInfo?: ServerFormInfo<T>,
   index?: number
 ) {
-  let submittedValue = serverFormInfo?.submittedValues?.[name];
-  if (type === "checkbox") {
+  // Read from inputs instead of submittedValues since they may not align
+  // 1:1 with rendered inputs (i.e., <input type="email" multiple>)
+  let inputInfo = getPath(serverFormInfo?.inputs, name) as
+    | InputInfo
+    | InputInfo[]
+    | undefined;
+  // File inputs can't be given a value
+  if (type === "checkbox" || type === "file") {
     return undefined;
-  } else if (Array.isArray(submittedValue)) {
+  } else if (Array.isArray(inputInfo)) {
     invariant(
       index != null && index >= 0,
       `Expected an "index" value for multiple-submission field "${name}"`
     );
-    return submittedValue[index];
-  } else if (typeof submittedValue === "string") {
-    return submittedValue;
+    return inputInfo[index]?.value ?? undefined;
+  } else if (typeof inputInfo?.value === "string") {
+    return inputInfo.value;
   }
 }
 
@@ -704,17 +3003,31 @@ function getInputDefaultValue<T extends FormDefinition>(
 // are dynamic).  So we can re-construct from what we just submitted.
 // Subsequent renders then use ne wFormData(inputRef.current.form)
 function generateFormDataFromServerFormInfo<T extends FormDefinition>(
+  formDefinition: T,
   submittedValues: ServerFormInfo<T>["submittedValues"]
 ) {
   let formData = new FormData();
-  Object.keys(submittedValues).forEach((k) => {
-    let v = submittedValues[k];
-    if (Array.isArray(v)) {
-      v.forEach((v2) => formData.append(k, v2));
-    } else if (typeof v === "string") {
-      formData.set(k, v);
+  // Only un-nest values that came from path-style input names
+  let isPathPrefix = (prefix: string) =>
+    Object.keys(formDefinition.inputs).some((k) => k.startsWith(prefix));
+  let append = (name: string, v: unknown) => {
+    let definitionName = normalizeInputName(name);
+    if (typeof v === "string") {
+      formData.append(name, v);
+    } else if (Array.isArray(v)) {
+      // Repeated definitions are indexed, otherwise multiple values share
+      // the same name
+      let isIndexed = isPathPrefix(`${definitionName}[].`);
+      v.forEach((v2, i) => append(isIndexed ? `${name}[${i}]` : name, v2));
+    } else if (
+      v != null &&
+      typeof v === "object" &&
+      isPathPrefix(`${definitionName}.`)
+    ) {
+      Object.entries(v).forEach(([k, v2]) => append(`${name}.${k}`, v2));
     }
-  });
+  };
+  Object.entries(submittedValues).forEach(([k, v]) => append(k, v));
   return formData;
 }
 
@@ -722,8 +3035,67 @@ function generateFormDataFromServerFormInfo<T extends FormDefinition>(
 function calculateValidationAttr(
   attrValue: BuiltInValidationAttrValue,
   formData: FormData
-) {
-  return typeof attrValue === "function" ? attrValue(formData) : attrValue;
+): string | number | boolean | null | undefined {
+  if (typeof attrValue === "function") {
+    return attrValue(formData);
+  }
+  if (attrValue != null && typeof attrValue === "object") {
+    return evaluateAttrExpression(attrValue, formData);
+  }
+  return attrValue;
+}
+
+function evaluateAttrExpression(
+  expression: AttrExpression<string | number | boolean>,
+  formData: FormData
+): string | number | boolean | null | undefined {
+  if ("ref" in expression) {
+    let value = formData.get(expression.ref);
+    return typeof value === "string" && value !== "" ? value : null;
+  }
+  let branch = evaluateAttrCondition(expression.if, formData)
+    ? expression.then
+    : expression.else;
+  return branch != null && typeof branch === "object"
+    ? evaluateAttrExpression(branch, formData)
+    : branch;
+}
+
+function evaluateAttrCondition(
+  condition: AttrCondition,
+  formData: FormData
+): boolean {
+  if ("and" in condition) {
+    return condition.and.every((c) => evaluateAttrCondition(c, formData));
+  }
+  if ("or" in condition) {
+    return condition.or.some((c) => evaluateAttrCondition(c, formData));
+  }
+  if ("not" in condition) {
+    return !evaluateAttrCondition(condition.not, formData);
+  }
+  // getAll() so conditions work for checkboxes and multiple selects
+  let values = formData
+    .getAll(condition.field)
+    .filter((v): v is string => typeof v === "string");
+  if (condition.eq != null) {
+    return values.includes(condition.eq);
+  }
+  if (condition.ne != null) {
+    return !values.includes(condition.ne);
+  }
+  if (condition.in != null) {
+    return values.some((v) => condition.in?.includes(v));
+  }
+  return values.some((v) => v !== "");
+}
+
+// Is this attribute value dependent on the current form values?
+function isDynamicAttr(attrValue: unknown) {
+  return (
+    typeof attrValue === "function" ||
+    (attrValue != null && typeof attrValue === "object")
+  );
 }
 
 // Calculate the validation attribute values to render onto an individual input
@@ -744,12 +3116,16 @@ function calculateValidationAttrs(
   }, {} as Record<string, string | number | boolean>);
 }
 
-// Does our form have any dynamic attribute values that require re-evaluation
-// on all form changes?
+// Does our form have any dynamic attribute values, conditional inputs or
+// form-level validations that require re-evaluation on all form changes?
 function hasDynamicAttributes(formDefinition: FormDefinition) {
-  return Object.values(formDefinition.inputs).some((inputDef) =>
-    Object.values(inputDef.validationAttrs || {}).some(
-      (attr) => typeof attr === "function"
+  return (
+    Object.keys(formDefinition.formValidations || {}).length > 0 ||
+    Object.values(formDefinition.inputs).some(
+      (inputDef) =>
+        inputDef.when != null ||
+        typeof inputDef.disabled === "function" ||
+        Object.values(inputDef.validationAttrs || {}).some(isDynamicAttr)
     )
   );
 }
@@ -759,10 +3135,13 @@ function getClasses(
   type: "label" | SupportedControlTypes,
   className?: string
 ) {
-  let { validity, state, touched, dirty } = info;
+  let { validity, state, touched, dirty, warnings } = info;
   return composeClassNames([
     `rvs-${type}`,
     shouldShowErrors(validity, state, touched) ? `rvs-${type}--invalid` : "",
+    shouldShowWarnings(warnings, state, touched) ? `rvs-${type}--warning` : "",
+    state === "pending" ? `rvs-${type}--pending` : "",
+    state === "skipped" ? `rvs-${type}--skipped` : "",
     state === "validating" ? `rvs-${type}--validating` : "",
     touched ? `rvs-${type}--touched` : "",
     dirty ? `rvs-${type}--dirty` : "",
@@ -775,7 +3154,25 @@ function shouldShowErrors(
   state: AsyncValidationState,
   touched: boolean
 ) {
-  return validity?.valid === false && state === "done" && touched;
+  // Built-in validations are complete while async validations are pending
+  return (
+    validity?.valid === false &&
+    (state === "done" || state === "pending") &&
+    touched
+  );
+}
+
+function shouldShowWarnings(
+  warnings: InputInfo["warnings"],
+  state: AsyncValidationState,
+  touched: boolean
+) {
+  return (
+    warnings != null &&
+    Object.keys(warnings).length > 0 &&
+    (state === "done" || state === "pending") &&
+    touched
+  );
 }
 
 // Get attributes shared across input/textarea/select elements
@@ -783,29 +3180,22 @@ function getControlAttrs<T extends SupportedControlTypes>(
   ctx: ReturnType<typeof useValidatedControl>,
   controlType: T,
   name?: string,
-  className?: string,
-  index?: number
+  className?: string
 ) {
   return {
     ref: ctx.composedRef,
     name: ctx.name,
     id: getInputId(ctx.name, ctx.id),
     className: getClasses(ctx.info, controlType, className),
-    defaultValue: getInputDefaultValue(
-      ctx.name,
-      controlType === "input" && "type" in ctx.validationAttrs
-        ? (ctx.validationAttrs.type as InputValidationAttrs["type"])
-        : undefined,
-      ctx.serverFormInfo,
-      index
-    ),
+    defaultValue: ctx.defaultValue,
     ...(shouldShowErrors(ctx.info.validity, ctx.info.state, ctx.info.touched)
       ? {
           "aria-invalid": true,
           "aria-errormessage": getErrorsId(name || ctx.name, ctx.id),
         }
       : {}),
-    ...ctx.validationAttrs,
+    ...(ctx.disabled != null ? { disabled: ctx.disabled } : {}),
+    ...omit(ctx.validationAttrs, ...nonHtmlValidationAttrs),
   };
 }
 
@@ -827,40 +3217,239 @@ function registerMultipleEventListeners(
   };
 }
 
+// Find a message in the catalogs for the current locale, falling back from
+// more to less specific locales (i.e., "fr-CA" then "fr").  Looks up
+// input-specific messages when given an input name, or general messages
+// otherwise.
+function getCatalogMessage(
+  localization: Localization | undefined,
+  inputName: string | null,
+  key: string
+): CatalogMessage | undefined {
+  let { locale, messages } = localization || {};
+  if (!locale || !messages) {
+    return undefined;
+  }
+  let subtags = locale.split("-");
+  for (let i = subtags.length; i > 0; i--) {
+    let catalog = messages[subtags.slice(0, i).join("-")];
+    let message =
+      inputName != null
+        ? catalog?.inputs?.[inputName]?.[key]
+        : catalog?.messages?.[key];
+    if (message != null) {
+      return message;
+    }
+  }
+  return undefined;
+}
+
+// Attributes whose values are formatted as numbers (or dates, for date/time
+// inputs) in localized messages
+const LOCALIZED_ATTRS = [
+  "minLength",
+  "maxLength",
+  "min",
+  "max",
+  "step",
+  "maxSize",
+  "minSize",
+  "maxFiles",
+];
+
+const DATE_FORMAT_OPTIONS: Record<string, Intl.DateTimeFormatOptions> = {
+  date: { year: "numeric", month: "short", day: "numeric" },
+  month: { year: "numeric", month: "long" },
+  time: { hour: "numeric", minute: "2-digit" },
+  "datetime-local": {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  },
+};
+
+// Format an attribute value for display in a message for the given locale
+function formatAttrValue(
+  attrValue: string,
+  locale: string,
+  type: string | undefined,
+  attr: string
+) {
+  if (!LOCALIZED_ATTRS.includes(attr)) {
+    return attrValue;
+  }
+  let dateFormatOptions = type ? DATE_FORMAT_OPTIONS[type] : undefined;
+  let date =
+    type && dateFormatOptions ? parseInputValueAsDate(type, attrValue) : null;
+  if (date) {
+    // Dates are parsed in UTC, so must be formatted in UTC as well
+    return new Intl.DateTimeFormat(locale, {
+      ...dateFormatOptions,
+      timeZone: "UTC",
+    }).format(date);
+  }
+  let number = parseFloatingPointNumber(attrValue);
+  return number != null
+    ? new Intl.NumberFormat(locale).format(number)
+    : attrValue;
+}
+
+// Resolve a message to a string, selecting the plural form and interpolating
+// placeholders.  Values are only formatted when a locale is provided, so the
+// server and client agree on the output.
+function formatMessage(
+  message: CatalogMessage,
+  attrValue: string | undefined,
+  inputName: string,
+  inputValue: string,
+  locale?: string,
+  type?: string,
+  attr?: string
+): string {
+  if (typeof message === "function") {
+    return message(attrValue, inputName, inputValue);
+  }
+  let count = attrValue != null ? parseFloatingPointNumber(attrValue) : null;
+  let template =
+    typeof message === "string"
+      ? message
+      : (count != null
+          ? message[new Intl.PluralRules(locale).select(count)]
+          : undefined) ?? message.other;
+  let formattedAttrValue =
+    attrValue != null && locale && attr
+      ? formatAttrValue(attrValue, locale, type, attr)
+      : attrValue;
+  return template.replace(/\{(attr|name|value)\}/g, (_, placeholder) =>
+    placeholder === "attr"
+      ? formattedAttrValue ?? ""
+      : placeholder === "name"
+      ? inputName
+      : inputValue
+  );
+}
+
 // Determine the current error messages to display based on the ExtendedValidityState
 // On the initial client render, when we don't have a ref, we accept
 // currentValidationAttrs.  On subsequent renders we use the ref and read the
 // up-to-date attribute value
 function getCurrentErrorMessages<T extends FormDefinition>(
   formDefinition: T,
-  inputName: KeyOf<T["inputs"]>,
+  inputName: string,
   inputValue: string,
   validity?: ExtendedValidityState,
   currentValidationAttrs?: Record<string, string | number | boolean>,
-  inputEl?: SupportedHTMLElements
+  inputEl?: SupportedHTMLElements,
+  validationFailures?: InputInfo["validationFailures"],
+  localization?: Localization
+) {
+  let definitionName = getDefinitionName(formDefinition, inputName);
+  let type = inputEl?.getAttribute("type") ?? currentValidationAttrs?.type;
+  let messages = Object.entries(validity || {})
+    .filter((e) => e[0] !== "valid" && e[1])
+    .reduce((acc, [validation, valid]) => {
+      let fileAttr =
+        fileValidityToAttrMapping[validation as FileValidityStateKey];
+      let attr =
+        fileAttr ||
+        (builtInValidityToAttrMapping[
+          validation as ValidityStateKey
+        ] as BuiltInValidationAttr);
+      // Messages returned from the validation itself take precedence, then
+      // input-specific messages, then form-wide messages
+      let message: CatalogMessage | undefined =
+        validationFailures?.[validation]?.message ||
+        getInputDefinition(formDefinition, inputName)?.errorMessages?.[
+          validation
+        ] ||
+        getCatalogMessage(localization, definitionName, validation) ||
+        formDefinition?.errorMessages?.[validation] ||
+        getCatalogMessage(localization, null, validation) ||
+        (fileAttr
+          ? fileValidations[fileAttr].errorMessage
+          : builtInValidations[attr as BuiltInValidationAttr]?.errorMessage);
+      // File size/count attributes aren't rendered onto the element
+      let attrValue =
+        inputEl && !nonHtmlValidationAttrs.includes(attr)
+          ? inputEl.getAttribute(attr)
+          : currentValidationAttrs?.[attr];
+      return Object.assign(acc, {
+        [validation]:
+          message != null
+            ? formatMessage(
+                message,
+                attrValue != null ? String(attrValue) : undefined,
+                inputName,
+                inputValue,
+                localization?.locale,
+                type != null ? String(type) : undefined,
+                attr
+              )
+            : message,
+      });
+    }, {});
+  return Object.keys(messages).length > 0 ? messages : undefined;
+}
+
+// Determine the current warning messages to display for failed
+// warning-severity custom validations.  These use the same lookup as errors.
+function getCurrentWarningMessages<T extends FormDefinition>(
+  formDefinition: T,
+  inputName: string,
+  inputValue: string,
+  warnings?: string[],
+  validationFailures?: InputInfo["validationFailures"],
+  localization?: Localization
+): Record<string, string> | undefined {
+  if (!warnings || warnings.length === 0) {
+    return undefined;
+  }
+  let definitionName = getDefinitionName(formDefinition, inputName);
+  return warnings.reduce((acc, validation) => {
+    let message =
+      validationFailures?.[validation]?.message ||
+      getInputDefinition(formDefinition, inputName)?.errorMessages?.[
+        validation
+      ] ||
+      getCatalogMessage(localization, definitionName, validation) ||
+      formDefinition?.errorMessages?.[validation] ||
+      getCatalogMessage(localization, null, validation);
+    return Object.assign(acc, {
+      [validation]:
+        message != null
+          ? formatMessage(
+              message,
+              undefined,
+              inputName,
+              inputValue,
+              localization?.locale
+            )
+          : message,
+    });
+  }, {} as Record<string, string>);
+}
+
+// Determine the current error messages to display for failed form-level
+// validations.  There's no single attribute/input/value for these so function
+// messages receive empty values.
+function getFormErrorMessages<T extends FormDefinition>(
+  formDefinition: T,
+  validity?: FormValidityState,
+  localization?: Localization
 ) {
   let messages = Object.entries(validity || {})
     .filter((e) => e[0] !== "valid" && e[1])
-    .reduce((acc, [validation, valid]) => {
-      let attr = builtInValidityToAttrMapping[
-        validation as ValidityStateKey
-      ] as BuiltInValidationAttr;
+    .reduce((acc, [validation]) => {
       let message =
-        formDefinition?.inputs?.[inputName]?.errorMessages?.[validation] ||
-        formDefinition?.errorMessages?.[validation] ||
-        builtInValidations[attr]?.errorMessage;
-      if (typeof message === "function") {
-        let attrValue = inputEl
-          ? inputEl.getAttribute(attr)
-          : currentValidationAttrs?.[attr];
-        message = message(
-          attrValue != null ? String(attrValue) : undefined,
-          inputName,
-          inputValue
-        );
-      }
+        formDefinition.errorMessages?.[validation] ||
+        getCatalogMessage(localization, null, validation);
       return Object.assign(acc, {
-        [validation]: message,
+        [validation]:
+          message != null
+            ? formatMessage(message, undefined, "", "", localization?.locale)
+            : message,
       });
     }, {});
   return Object.keys(messages).length > 0 ? messages : undefined;
@@ -870,6 +3459,144 @@ function getCurrentErrorMessages<T extends FormDefinition>(
 ////////////////////////////////////////////////////////////////////////////////
 //#region Contexts + Components + Hooks
 
+/**
+ * Aggregated state of all controls rendered within a <FormProvider>
+ */
+export interface FormState {
+  // No controls are invalid
+  valid: boolean;
+  // Any control is dirty/touched
+  dirty: boolean;
+  touched: boolean;
+  // Any control has validations pending or in progress
+  validating: boolean;
+  // Error messages for invalid controls, keyed by name.  Controls rendered
+  // with an index (multiple inputs with the same name) are arrays by index.
+  errors: Record<
+    string,
+    Record<string, string> | Array<Record<string, string> | undefined>
+  >;
+  // Number of times the form has been submitted
+  submitCount: number;
+}
+
+interface RegisteredControl {
+  name: string;
+  index?: number;
+  info: InputInfo;
+  // Run all validations immediately, resolving with the control's validity
+  validate: () => Promise<boolean>;
+  inputRef: React.RefObject<SupportedHTMLElements>;
+}
+
+// Store of the InputInfo for every control rendered within a <FormProvider>,
+// aggregated for useFormState()
+function createFormStateStore() {
+  let controls = new Map<string, RegisteredControl>();
+  let listeners = new Set<() => void>();
+  let submitCount = 0;
+  let resubmitting = false;
+  let snapshot: FormState | null = null;
+  let notify = () => {
+    snapshot = null;
+    listeners.forEach((listener) => listener());
+  };
+  return {
+    setControl(id: string, control: RegisteredControl) {
+      controls.set(id, control);
+      notify();
+    },
+    deleteControl(id: string) {
+      if (controls.delete(id)) {
+        notify();
+      }
+    },
+    incrementSubmitCount() {
+      // Don't double count submissions we re-dispatch after validating
+      if (!resubmitting) {
+        submitCount++;
+        notify();
+      }
+    },
+    // Validate all controls, returning the elements of any invalid controls
+    async validateAll() {
+      let results = await Promise.all(
+        Array.from(controls.values()).map(async (control) => ({
+          el: control.inputRef.current,
+          valid: await control.validate(),
+        }))
+      );
+      return results
+        .filter((r) => !r.valid)
+        .map((r) => r.el)
+        .filter((el): el is SupportedHTMLElements => el != null);
+    },
+    // Submit the form again once it has been validated
+    resubmit(form: HTMLFormElement, submitter: HTMLElement | null) {
+      resubmitting = true;
+      try {
+        form.requestSubmit(submitter);
+      } finally {
+        resubmitting = false;
+      }
+    },
+    isResubmitting() {
+      return resubmitting;
+    },
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot(): FormState {
+      if (!snapshot) {
+        snapshot = getFormState(controls.values(), submitCount);
+      }
+      return snapshot;
+    },
+  };
+}
+
+type FormStateStore = ReturnType<typeof createFormStateStore>;
+
+function getFormState(
+  controls: Iterable<RegisteredControl>,
+  submitCount: number
+): FormState {
+  let formState: FormState = {
+    valid: true,
+    dirty: false,
+    touched: false,
+    validating: false,
+    errors: {},
+    submitCount,
+  };
+  for (let { name, index, info } of controls) {
+    formState.dirty = formState.dirty || info.dirty;
+    formState.touched = formState.touched || info.touched;
+    formState.validating =
+      formState.validating ||
+      info.state === "pending" ||
+      info.state === "validating";
+    // Skipped controls retain their prior validity but don't impact the form
+    if (info.state === "skipped" || info.validity?.valid !== false) {
+      continue;
+    }
+    formState.valid = false;
+    let errorMessages = info.errorMessages || {};
+    if (index != null) {
+      let existing = formState.errors[name];
+      let errors = Array.isArray(existing) ? existing : [];
+      errors[index] = errorMessages;
+      formState.errors[name] = errors;
+    } else {
+      formState.errors[name] = errorMessages;
+    }
+  }
+  return formState;
+}
+
 export const FormContext =
   React.createContext<FormContextObject<FormDefinition> | null>(null);
 
@@ -889,7 +3616,7 @@ interface UseValidatedControlOpts<
   T extends FormDefinition,
   E extends SupportedHTMLElements
 > {
-  name: KeyOf<T["inputs"]>;
+  name: InputName<T>;
   formDefinition?: T;
   serverFormInfo?: ServerFormInfo<T>;
   ref?:
@@ -908,13 +3635,21 @@ function useValidatedControl<
   let name = opts.name;
   let formDefinition = opts.formDefinition || ctx?.formDefinition;
   let forceUpdate = opts.forceUpdate || ctx?.forceUpdate;
+  let locale = ctx?.locale;
+  // Catalogs are often passed inline to <FormProvider>, so we read the latest
+  // ones when validating rather than re-validating whenever they change
+  let messages = React.useRef(ctx?.messages);
+  useIsomorphicLayoutEffect(() => {
+    messages.current = ctx?.messages;
+  });
+  let formValidator = ctx?.formValidator;
   invariant(
     formDefinition,
     "useValidatedControl() must either be used inside a <FormProvider> " +
       "or be passed a `formDefinition` object"
   );
 
-  let inputDef = formDefinition.inputs[name];
+  const inputDef = getInputDefinition(formDefinition, name);
   invariant(
     inputDef,
     `useValidatedControl() could not find a corresponding definition ` +
@@ -922,33 +3657,76 @@ function useValidatedControl<
   );
 
   let serverFormInfo = opts.serverFormInfo || ctx?.serverFormInfo;
+  let serverLookup = serverFormInfo
+    ? getServerLookup(name, opts.index, ctx?.fieldArrays)
+    : null;
   let wasSubmitted = false;
   let serverValue: string | null = null;
   let serverValidity: InputInfo["validity"] = undefined;
+  let serverValidationFailures: InputInfo["validationFailures"] = undefined;
+  let serverWarnings: InputInfo["warnings"] = undefined;
+  let serverErrorMessages: InputInfo["errorMessages"] = undefined;
 
-  if (serverFormInfo != null) {
+  if (serverFormInfo != null && serverLookup != null) {
     wasSubmitted = true;
-    let submittedValue = serverFormInfo.submittedValues[name];
-    let inputInfo = serverFormInfo.inputs[name];
+    let submittedValue = getPath(
+      serverFormInfo.submittedValues,
+      serverLookup.name
+    );
+    let inputInfo = getPath(serverFormInfo.inputs, serverLookup.name) as
+      | InputInfo
+      | InputInfo[];
     if (
       (inputDef.element == null || inputDef.element === "input") &&
       inputDef.validationAttrs?.type === "checkbox"
     ) {
-      // Checkboxes aren't re-populated like others at the moment :/
+      // Checkboxes aren't re-populated like others at the moment :/  But we
+      // still reflect the server validation results, which apply to the
+      // checkbox group as a whole.  Each checked value has its own InputInfo,
+      // so we report the first invalid one.
+      let inputInfos = Array.isArray(inputInfo) ? inputInfo : [inputInfo];
+      let groupInfo =
+        inputInfos.find((info) => info?.validity?.valid === false) ||
+        inputInfos[0];
+      serverValidity = groupInfo?.validity;
+      serverValidationFailures = groupInfo?.validationFailures;
+      serverWarnings = groupInfo?.warnings;
+      serverErrorMessages = groupInfo?.errorMessages;
+    } else if (
+      (inputDef.element == null || inputDef.element === "input") &&
+      inputDef.validationAttrs?.type === "file"
+    ) {
+      // Files can't be re-populated, but we can still reflect the server
+      // validation results
+      invariant(
+        !Array.isArray(inputInfo),
+        `Incompatible serverFormInfo structure for field "${name}"`
+      );
+      serverValidity = inputInfo.validity;
+      serverValidationFailures = inputInfo.validationFailures;
+      serverWarnings = inputInfo.warnings;
+      serverErrorMessages = inputInfo.errorMessages;
     } else if (Array.isArray(inputInfo) || Array.isArray(submittedValue)) {
       invariant(
         Array.isArray(inputInfo) && Array.isArray(submittedValue),
         `Incompatible serverFormInfo structure for field "${name}"`
       );
+      let index = serverLookup.index;
       invariant(
-        opts.index != null && opts.index >= 0,
+        index != null && index >= 0,
         `Expected an "index" value for multiple-submission field "${name}"`
       );
-      serverValue = submittedValue[opts.index];
-      serverValidity = inputInfo[opts.index].validity;
+      serverValue = inputInfo[index].value;
+      serverValidity = inputInfo[index].validity;
+      serverValidationFailures = inputInfo[index].validationFailures;
+      serverWarnings = inputInfo[index].warnings;
+      serverErrorMessages = inputInfo[index].errorMessages;
     } else {
-      serverValue = submittedValue;
+      serverValue = typeof submittedValue === "string" ? submittedValue : null;
       serverValidity = inputInfo.validity;
+      serverValidationFailures = inputInfo.validationFailures;
+      serverWarnings = inputInfo.warnings;
+      serverErrorMessages = inputInfo.errorMessages;
     }
   }
 
@@ -960,17 +3738,36 @@ function useValidatedControl<
   let formData = inputRef.current?.form
     ? new FormData(inputRef.current.form)
     : serverFormInfo
-    ? generateFormDataFromServerFormInfo(serverFormInfo.submittedValues)
+    ? generateFormDataFromServerFormInfo(
+        formDefinition,
+        serverFormInfo.submittedValues
+      )
     : new FormData();
 
   let currentValidationAttrs = calculateValidationAttrs(
     inputDef.validationAttrs,
     formData
   );
+  let disabled =
+    inputDef.disabled != null ? isInputDisabled(inputDef, formData) : undefined;
+  let defaultValue =
+    serverFormInfo && serverLookup
+      ? getInputDefaultValue(
+          serverLookup.name,
+          IsInputDefinition(inputDef)
+            ? inputDef.validationAttrs?.type
+            : undefined,
+          serverFormInfo,
+          serverLookup.index
+        )
+      : undefined;
 
   let id = React.useId();
+  // Controls restored from serverFormInfo start out with the server results,
+  // so treat the first effect run like a new server validation rather than
+  // re-validating on hydration
   let prevServerFormInfo = React.useRef<ServerFormInfo<T> | undefined>(
-    serverFormInfo
+    wasSubmitted ? undefined : serverFormInfo
   );
   let composedRef = useComposedRefs(inputRef, opts.ref);
   let [value, setValue] = React.useState(serverValue || "");
@@ -978,23 +3775,57 @@ function useValidatedControl<
   let [touched, setTouched] = React.useState<boolean>(wasSubmitted);
   let [validationState, setValidationState] = React.useState<
     InputInfo["state"]
-  >(wasSubmitted ? "done" : "idle");
+  >(
+    isInputSkipped(inputDef, formData)
+      ? "skipped"
+      : wasSubmitted
+      ? "done"
+      : "idle"
+  );
   let [validity, setValidity] = React.useState<
     InputInfo["validity"] | undefined
   >(serverValidity);
+  let [validationFailures, setValidationFailures] = React.useState<
+    InputInfo["validationFailures"]
+  >(serverValidationFailures);
   let [currentErrorMessages, setCurrentErrorMessages] = React.useState<
     Record<string, string> | undefined
-  >(() =>
-    getCurrentErrorMessages(
-      formDefinition!,
-      name,
-      value,
-      validity,
-      currentValidationAttrs,
-      undefined
-    )
-  );
+  >(() => {
+    invariant(formDefinition, "No formDefinition available in useState");
+    // Reuse the messages resolved on the server
+    return (
+      serverErrorMessages ??
+      getCurrentErrorMessages(
+        formDefinition,
+        name,
+        value,
+        validity,
+        currentValidationAttrs,
+        undefined,
+        validationFailures,
+        { locale, messages: messages.current }
+      )
+    );
+  });
+  let [currentWarningMessages, setCurrentWarningMessages] = React.useState<
+    Record<string, string> | undefined
+  >(serverWarnings);
   let controller = React.useRef<AbortController | null>(null);
+  let lastValidationRuns = React.useRef<Record<string, number>>({});
+  let validationCache = React.useRef<ValidationResultCache>(new Map());
+  // We can't know whether a custom validation is async until it returns a
+  // Promise, after which the input-level debounce/throttle apply to it
+  let asyncValidations = React.useRef(new Set<string>());
+  // Requests to run all validations immediately (i.e., on submit), resolved
+  // with our validity once validations settle
+  let [validateRequest, setValidateRequest] = React.useState(0);
+  let prevValidateRequest = React.useRef(validateRequest);
+  let validationWaiters = React.useRef<Array<(valid: boolean) => void>>([]);
+  let resolveValidationWaiters = (valid: boolean) => {
+    let waiters = validationWaiters.current;
+    validationWaiters.current = [];
+    waiters.forEach((resolve) => resolve(valid));
+  };
 
   // Set InputInfo.touched on `blur` events
   React.useEffect(() => {
@@ -1017,6 +3848,41 @@ function useValidatedControl<
     return () => inputEl?.removeEventListener("blur", handler);
   }, [inputDef, inputRef, name]);
 
+  // Track whether the element is barred from validation by the DOM
+  // disabled/readonly attributes (including those of a <fieldset>), so we can
+  // re-validate when they're toggled
+  let [barred, setBarred] = React.useState(false);
+  React.useEffect(() => {
+    let inputEl = inputRef.current;
+    if (!inputEl) {
+      return;
+    }
+    let formEl = inputEl.form;
+    let inputType = IsInputDefinition(inputDef)
+      ? inputDef.validationAttrs?.type
+      : null;
+    let update = () =>
+      setBarred(
+        isBarredFromValidation(
+          inputType === "radio" || inputType === "checkbox"
+            ? Array.from(
+                formEl?.querySelectorAll<HTMLInputElement>(
+                  `input[type="${inputType}"][name="${name}"]`
+                ) || []
+              )
+            : inputEl || undefined
+        )
+      );
+    update();
+    let observer = new MutationObserver(update);
+    observer.observe(formEl || inputEl, {
+      attributes: true,
+      attributeFilter: ["disabled", "readonly"],
+      subtree: true,
+    });
+    return () => observer.disconnect();
+  }, [inputDef, inputRef, name]);
+
   // Set value and InputInfo.dirty on `input` events
   React.useEffect(() => {
     let inputEl = inputRef.current;
@@ -1038,7 +3904,11 @@ function useValidatedControl<
 
     let handler = function (this: E) {
       setDirty(true);
-      setValue(this.value);
+      setValue(
+        this instanceof HTMLInputElement && this.files
+          ? getFileInputValue(Array.from(this.files).map(getFileInfo))
+          : this.value
+      );
     };
 
     if (inputType === "checkbox" || inputType === "radio") {
@@ -1051,7 +3921,16 @@ function useValidatedControl<
 
   // Run validations on input value changes
   React.useEffect(() => {
+    let localController = new AbortController();
+    let timeouts: number[] = [];
+
     async function go() {
+      let formEl = inputRef.current?.form;
+      let formData = formEl ? new FormData(formEl) : undefined;
+      let skipped = formData != null && isInputSkipped(inputDef, formData);
+      let flush = prevValidateRequest.current !== validateRequest;
+      prevValidateRequest.current = validateRequest;
+
       // If this is the first render after a server validation, consider us
       // validated and mark dirty/touched to show errors.  Then skip re-running
       // validations on the client
@@ -1059,10 +3938,14 @@ function useValidatedControl<
         prevServerFormInfo.current = serverFormInfo;
         setDirty(true);
         setTouched(true);
-        setValidationState("done");
+        setValidationState(skipped ? "skipped" : "done");
         if (serverValidity) {
           setValidity(serverValidity);
+          setValidationFailures(serverValidationFailures);
+          setCurrentErrorMessages(serverErrorMessages);
+          setCurrentWarningMessages(serverWarnings);
         }
+        resolveValidationWaiters(skipped || serverValidity?.valid !== false);
         return;
       }
 
@@ -1074,88 +3957,307 @@ function useValidatedControl<
       // Validate the input
       if (!inputDef) {
         setValidationState("done");
+        resolveValidationWaiters(true);
         return;
       }
-      let localController = new AbortController();
       controller.current = localController;
-      setValidationState("validating");
 
-      let validity: ExtendedValidityState;
       let inputType = IsInputDefinition(inputDef)
         ? inputDef.validationAttrs?.type
         : null;
-      if (inputType === "radio" || inputType === "checkbox") {
-        validity = await validateInput(
+      let inputEl =
+        inputType === "radio" || inputType === "checkbox"
+          ? Array.from(
+              inputRef.current?.form?.querySelectorAll<HTMLInputElement>(
+                `input[type="${inputType}"][name="${name}"]`
+              ) || []
+            )
+          : inputRef.current || undefined;
+
+      // Clear out any prior validation results for inputs that are no longer
+      // applicable or are barred from validation in the DOM
+      if (skipped || isBarredFromValidation(inputEl)) {
+        setValidationState("skipped");
+        setValidity(undefined);
+        setValidationFailures(undefined);
+        setCurrentErrorMessages(undefined);
+        setCurrentWarningMessages(undefined);
+        resolveValidationWaiters(true);
+        return;
+      }
+      let isCached = (validationName: string, validation: CustomValidation) =>
+        formData != null &&
+        getCachedValidationResult(
+          validationCache.current,
           name,
-          inputDef.validationAttrs,
-          inputDef.customValidations,
+          validationName,
+          validation,
           value,
-          Array.from(
-            inputRef.current?.form?.querySelectorAll(
-              `input[type="${inputType}"][name="${name}"]`
-            ) || []
-          )
+          formData
+        ) != null;
+
+      // Custom validations with a debounce/throttle are deferred unless we
+      // already have a cached result or have been asked to validate now,
+      // everything else runs immediately
+      let now = Date.now();
+      let immediateValidations: CustomValidations = {};
+      let delayedValidations: Array<[string, CustomValidation, number]> = [];
+      for (let [validationName, validation] of Object.entries(
+        inputDef.customValidations || {}
+      )) {
+        let delay = getCustomValidationDelay(
+          validation,
+          inputDef,
+          asyncValidations.current.has(validationName),
+          lastValidationRuns.current[validationName] ?? 0,
+          now
         );
-      } else {
-        validity = await validateInput(
-          name,
-          inputDef.validationAttrs,
-          inputDef.customValidations,
-          value,
-          inputRef.current || undefined
+        if (!flush && delay > 0 && !isCached(validationName, validation)) {
+          delayedValidations.push([validationName, validation, delay]);
+        } else {
+          immediateValidations[validationName] = validation;
+          lastValidationRuns.current[validationName] = now;
+        }
+      }
+
+      // Built-in and cached validations complete synchronously, so only
+      // indicate we're validating when we have to wait on something else
+      let hasFormValidations = Object.values(
+        formDefinition?.formValidations || {}
+      ).some((formValidation) => isFormValidationInput(formValidation, name));
+      if (
+        hasFormValidations ||
+        Object.entries(immediateValidations).some(
+          ([validationName, validation]) =>
+            !isCached(validationName, validation)
+        )
+      ) {
+        setValidationState("validating");
+      }
+
+      let { validity, validationFailures, warnings } = await validateInput(
+        name,
+        inputDef.validationAttrs,
+        immediateValidations,
+        value,
+        inputEl,
+        formData,
+        {
+          signal: localController.signal,
+          cache: validationCache.current,
+          asyncValidations: asyncValidations.current,
+        }
+      );
+
+      // Apply any form-level validations that include this input
+      if (formDefinition?.formValidations && formEl) {
+        applyFormValidity(
+          validity,
+          await (formValidator || validateForm)(
+            formDefinition,
+            new FormData(formEl),
+            name,
+            localController.signal
+          )
         );
       }
+
       if (localController.signal.aborted) {
         return;
       }
-      setValidationState("done");
-      setValidity(validity);
 
-      // Generate error messages based on the validations
-      if (validity?.valid === false) {
+      let pendingCount = delayedValidations.length;
+      let runningCount = 0;
+      let update = () => {
+        setValidationState(
+          runningCount > 0
+            ? "validating"
+            : pendingCount > 0
+            ? "pending"
+            : "done"
+        );
+        setValidity({ ...validity });
+        setValidationFailures(validationFailures);
         invariant(formDefinition, "No formDefinition available in useEffect");
-        invariant(
-          inputRef.current,
-          "Expected an input to be present for client-side error message generation"
+
+        // Generate error messages based on the validations
+        if (validity.valid === false) {
+          invariant(
+            inputRef.current,
+            "Expected an input to be present for client-side error message generation"
+          );
+          let errorMessages = getCurrentErrorMessages(
+            formDefinition,
+            name,
+            value,
+            validity,
+            formData
+              ? calculateValidationAttrs(inputDef.validationAttrs, formData)
+              : undefined,
+            inputRef.current,
+            validationFailures,
+            { locale, messages: messages.current }
+          );
+          setCurrentErrorMessages(errorMessages);
+        } else {
+          setCurrentErrorMessages(undefined);
+        }
+        setCurrentWarningMessages(
+          getCurrentWarningMessages(
+            formDefinition,
+            name,
+            value,
+            warnings,
+            validationFailures,
+            { locale, messages: messages.current }
+          )
         );
-        let messages = getCurrentErrorMessages(
-          formDefinition,
+        if (pendingCount === 0 && runningCount === 0) {
+          resolveValidationWaiters(validity.valid !== false);
+        }
+      };
+      update();
+
+      let runDelayedValidation = async (
+        validationName: string,
+        validation: CustomValidation
+      ) => {
+        pendingCount--;
+        runningCount++;
+        update();
+        lastValidationRuns.current[validationName] = Date.now();
+        let result = await validateInput(
           name,
-          value,
-          validity,
           undefined,
-          inputRef.current
+          { [validationName]: validation },
+          value,
+          inputEl,
+          formData,
+          {
+            signal: localController.signal,
+            cache: validationCache.current,
+            asyncValidations: asyncValidations.current,
+          }
+        );
+        if (localController.signal.aborted) {
+          return;
+        }
+        runningCount--;
+        if (isWarningValidation(validation)) {
+          warnings = [
+            ...(warnings || []).filter((w) => w !== validationName),
+            ...(result.warnings || []),
+          ];
+        } else {
+          validity[validationName] = result.validity[validationName];
+          validity.valid = isValidityValid(validity);
+        }
+        let { [validationName]: failure, ...otherFailures } =
+          validationFailures || {};
+        validationFailures = result.validationFailures
+          ? { ...otherFailures, ...result.validationFailures }
+          : otherFailures;
+        update();
+      };
+
+      for (let [validationName, validation, delay] of delayedValidations) {
+        timeouts.push(
+          window.setTimeout(
+            () =>
+              runDelayedValidation(validationName, validation).catch((e) => {
+                if (!localController.signal.aborted) {
+                  console.error("Error in delayed validateInput", e);
+                  resolveValidationWaiters(false);
+                }
+              }),
+            delay
+          )
         );
-        setCurrentErrorMessages(messages);
-      } else {
-        setCurrentErrorMessages(undefined);
       }
     }
 
-    go().catch((e) => console.error("Error in validateInput useEffect", e));
+    go().catch((e) => {
+      // Superseded validations are expected to reject once aborted
+      if (!localController.signal.aborted) {
+        console.error("Error in validateInput useEffect", e);
+        // Don't leave a submission waiting on validations that failed to run
+        resolveValidationWaiters(false);
+      }
+    });
 
-    return () => controller.current?.abort();
+    return () => {
+      timeouts.forEach((timeout) => window.clearTimeout(timeout));
+      controller.current?.abort();
+    };
 
     // Important: forceUpdate must remain included in the deps array for
-    // auto-revalidation on dynamic attribute value changes
+    // auto-revalidation on dynamic attribute value changes, and barred for
+    // disabled/readonly changes
   }, [
+    barred,
     forceUpdate,
     formDefinition,
+    formValidator,
     inputDef,
+    locale,
     name,
+    serverErrorMessages,
     serverFormInfo,
+    serverValidationFailures,
     serverValidity,
+    serverWarnings,
+    validateRequest,
     value,
   ]);
 
-  let info: InputInfo = {
-    value,
-    dirty,
-    touched,
-    state: validationState,
-    validity,
-    errorMessages: currentErrorMessages,
-  };
+  let info = React.useMemo<InputInfo>(
+    () => ({
+      value,
+      dirty,
+      touched,
+      state: validationState,
+      validity,
+      errorMessages: currentErrorMessages,
+      ...(validationFailures ? { validationFailures } : {}),
+      ...(currentWarningMessages ? { warnings: currentWarningMessages } : {}),
+    }),
+    [
+      currentErrorMessages,
+      currentWarningMessages,
+      dirty,
+      touched,
+      validationFailures,
+      validationState,
+      validity,
+      value,
+    ]
+  );
+
+  // Run all validations now, i.e., on submit, and mark us touched so any
+  // errors are shown
+  let validate = React.useCallback(() => {
+    setTouched(true);
+    return new Promise<boolean>((resolve) => {
+      validationWaiters.current.push(resolve);
+      setValidateRequest((r) => r + 1);
+    });
+  }, []);
+
+  // Report our info to the <FormProvider> for useFormState() and
+  // useValidatedSubmit()
+  let formState = ctx?.formState;
+  let index = opts.index;
+  React.useEffect(() => {
+    formState?.setControl(id, { name, index, info, validate, inputRef });
+  }, [formState, id, index, info, inputRef, name, validate]);
+  React.useEffect(() => {
+    return () => {
+      formState?.deleteControl(id);
+      // Don't block a submission waiting on an unmounted control
+      validationWaiters.current.forEach((resolve) => resolve(true));
+      validationWaiters.current = [];
+    };
+  }, [formState, id]);
 
   // Provide the caller a prop getter to be spread onto the <label>
   function getLabelAttrs({
@@ -1187,6 +4289,8 @@ function useValidatedControl<
     name,
     id,
     validationAttrs: currentValidationAttrs,
+    disabled,
+    defaultValue,
     ref: inputRef,
     composedRef,
     info,
@@ -1198,7 +4302,7 @@ function useValidatedControl<
 }
 
 interface UseValidatedInputOpts<T extends FormDefinition> {
-  name: KeyOf<T["inputs"]>;
+  name: InputName<T>;
   formDefinition?: T;
   serverFormInfo?: ServerFormInfo<T>;
   ref?:
@@ -1222,8 +4326,7 @@ export function useValidatedInput<T extends FormDefinition>(
       ctx,
       "input",
       attrs.name,
-      attrs.className,
-      opts.index
+      attrs.className
     );
     return {
       ...controlAttrs,
@@ -1242,7 +4345,7 @@ export function useValidatedInput<T extends FormDefinition>(
 }
 
 interface UseValidatedTextAreaOpts<T extends FormDefinition> {
-  name: KeyOf<T["inputs"]>;
+  name: InputName<T>;
   formDefinition?: T;
   serverFormInfo?: ServerFormInfo<T>;
   ref?:
@@ -1266,8 +4369,7 @@ export function useValidatedTextArea<T extends FormDefinition>(
       ctx,
       "textarea",
       attrs.name,
-      attrs.className,
-      opts.index
+      attrs.className
     );
     return {
       ...controlAttrs,
@@ -1286,7 +4388,7 @@ export function useValidatedTextArea<T extends FormDefinition>(
 }
 
 interface UseValidatedSelectOpts<T extends FormDefinition> {
-  name: KeyOf<T["inputs"]>;
+  name: InputName<T>;
   formDefinition?: T;
   serverFormInfo?: ServerFormInfo<T>;
   ref?:
@@ -1310,8 +4412,7 @@ export function useValidatedSelect<T extends FormDefinition>(
       ctx,
       "select",
       attrs.name,
-      attrs.className,
-      opts.index
+      attrs.className
     );
     return {
       ...controlAttrs,
@@ -1334,6 +4435,9 @@ export interface FormProviderProps<T extends FormDefinition>
     formDefinition: T;
     serverFormInfo?: ServerFormInfo<T>;
     formRef?: React.RefObject<HTMLFormElement>;
+    // Locale and catalogs used to resolve messages
+    locale?: string;
+    messages?: MessageCatalogs;
   }> {}
 
 export function FormProvider<T extends FormDefinition>(
@@ -1343,6 +4447,29 @@ export function FormProvider<T extends FormDefinition>(
   // trigger re-renders o those inputs at a higher level an time the formData
   // changes, in case the dynamic attributes values need to be updated.
   let [forcedUpdate, forceUpdate] = React.useState({});
+  let [fieldArrays, setFieldArrays] = React.useState<FieldArrayServerIndexes>(
+    {}
+  );
+  let setFieldArray = React.useCallback(
+    (name: string, serverIndexes: Array<number | undefined> | undefined) =>
+      setFieldArrays(({ [name]: prev, ...rest }) =>
+        serverIndexes == null ? rest : { ...rest, [name]: serverIndexes }
+      ),
+    []
+  );
+  let [formState] = React.useState(createFormStateStore);
+  let [formValidator] = React.useState(createFormValidator);
+
+  // Count submissions for useFormState()
+  React.useEffect(() => {
+    let formEl = props.formRef?.current;
+    if (!formEl) {
+      return;
+    }
+    let onSubmit = () => formState.incrementSubmitCount();
+    formEl.addEventListener("submit", onSubmit);
+    return () => formEl?.removeEventListener("submit", onSubmit);
+  }, [formState, props.formRef]);
   React.useEffect(() => {
     let formEl = props.formRef?.current;
     if (!formEl || !hasDynamicAttributes(props.formDefinition)) {
@@ -1359,7 +4486,14 @@ export function FormProvider<T extends FormDefinition>(
       value={{
         formDefinition: props.formDefinition,
         serverFormInfo: props.serverFormInfo,
+        formRef: props.formRef,
         forceUpdate: forcedUpdate,
+        fieldArrays,
+        setFieldArray,
+        locale: props.locale,
+        messages: props.messages,
+        formState,
+        formValidator,
       }}
     >
       {props.children}
@@ -1367,6 +4501,274 @@ export function FormProvider<T extends FormDefinition>(
   );
 }
 
+// Track form-level validations (FormDefinition.formValidations).  These are
+// re-run on form changes, which requires a <FormProvider formRef>
+export function useFormValidity<T extends FormDefinition>() {
+  let ctx = useOptionalFormContext<T>();
+  invariant(ctx, "useFormValidity() must be used inside a <FormProvider>");
+  let { formDefinition, serverFormInfo, formRef, forceUpdate, formValidator } =
+    ctx;
+  let [validity, setValidity] = React.useState<FormValidityState | undefined>(
+    serverFormInfo?.formValidity
+  );
+  let prevForceUpdate = React.useRef(forceUpdate);
+
+  // Reflect new server validations
+  React.useEffect(() => {
+    setValidity(serverFormInfo?.formValidity);
+  }, [serverFormInfo]);
+
+  // Re-run validations on form changes, but don't flag errors on initial render
+  React.useEffect(() => {
+    let formEl = formRef?.current;
+    if (prevForceUpdate.current === forceUpdate || !formEl) {
+      return;
+    }
+    prevForceUpdate.current = forceUpdate;
+    let controller = new AbortController();
+    (formValidator || validateForm)(
+      formDefinition,
+      new FormData(formEl),
+      undefined,
+      controller.signal
+    )
+      .then((v) => !controller.signal.aborted && setValidity(v))
+      .catch((e) => {
+        if (!controller.signal.aborted) {
+          console.error("Error in validateForm useEffect", e);
+        }
+      });
+    return () => controller.abort();
+  }, [forceUpdate, formDefinition, formRef, formValidator]);
+
+  return {
+    validity,
+    // Reuse the messages resolved on the server until we re-validate
+    errorMessages:
+      validity === serverFormInfo?.formValidity
+        ? serverFormInfo?.formErrorMessages
+        : getFormErrorMessages(formDefinition, validity, {
+            locale: ctx.locale,
+            messages: ctx.messages,
+          }),
+  };
+}
+
+// Aggregate the state of all controls within the <FormProvider>, i.e., to
+// disable a submit button or show a progress indicator.  Submissions are only
+// counted when the <FormProvider> has a formRef.
+export function useFormState(): FormState {
+  let ctx = useOptionalFormContext();
+  invariant(
+    ctx?.formState,
+    "useFormState() must be used inside a <FormProvider>"
+  );
+  let { subscribe, getSnapshot } = ctx.formState;
+  return React.useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * Submit handler to be placed on your <form> (or Remix <Form>) that runs all
+ * pending validations, marks every control touched, and only allows the
+ * submission through once the form is valid.  Otherwise focus is moved to the
+ * first invalid control.  Submit buttons with `formNoValidate` opt out to
+ * allow intentional server-only submissions.
+ */
+export function useValidatedSubmit(
+  onSubmit?: (event: React.FormEvent<HTMLFormElement>) => void
+) {
+  let ctx = useOptionalFormContext();
+  invariant(
+    ctx?.formState,
+    "useValidatedSubmit() must be used inside a <FormProvider>"
+  );
+  let formState = ctx.formState;
+  return React.useCallback(
+    (event: React.FormEvent<HTMLFormElement>) => {
+      let form = event.currentTarget;
+      let submitter = (event.nativeEvent as SubmitEvent).submitter;
+      let { valid, validating } = formState.getSnapshot();
+      if (
+        formState.isResubmitting() ||
+        submitter?.hasAttribute("formnovalidate") ||
+        (valid && !validating)
+      ) {
+        onSubmit?.(event);
+        return;
+      }
+
+      // We can't know the result synchronously, so cancel this submission
+      // and submit again once everything has been validated
+      event.preventDefault();
+      formState
+        .validateAll()
+        .then((invalidEls) => {
+          if (invalidEls.length === 0) {
+            formState.resubmit(form, submitter);
+            return;
+          }
+          let [firstInvalidEl] = invalidEls.sort((a, b) =>
+            a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING
+              ? -1
+              : 1
+          );
+          firstInvalidEl.focus();
+        })
+        .catch((e) => {
+          // Let the server validate rather than blocking the submission
+          console.error("Error validating form submission", e);
+          formState.resubmit(form, submitter);
+        });
+    },
+    [formState, onSubmit]
+  );
+}
+
+interface UseFieldArrayOpts<T extends FormDefinition> {
+  name: FieldArrayName<T>;
+  formDefinition?: T;
+  serverFormInfo?: ServerFormInfo<T>;
+}
+
+export interface FieldArrayField {
+  // Stable key to use when rendering the row
+  key: string;
+  // Current position of the row
+  index: number;
+  // The multiple input name, or the indexed prefix for the names of a
+  // repeated group of inputs (i.e., "items[2]")
+  name: string;
+}
+
+interface FieldArrayRow {
+  key: string;
+  // Index of the row in the latest server submission, if it was submitted
+  serverIndex?: number;
+}
+
+// Manage the rows of a multiple input or a repeated group of inputs.  Rows
+// keep stable keys and their server validation results as they are added,
+// removed and reordered.  Server results can only be remapped inside a
+// <FormProvider>.
+export function useFieldArray<T extends FormDefinition>(
+  opts: UseFieldArrayOpts<T>
+) {
+  let ctx = useOptionalFormContext<T>();
+  let name: string = opts.name;
+  let formDefinition = opts.formDefinition || ctx?.formDefinition;
+  invariant(
+    formDefinition,
+    "useFieldArray() must either be used inside a <FormProvider> " +
+      "or be passed a `formDefinition` object"
+  );
+  let isGroup = !(name in formDefinition.inputs);
+  invariant(
+    !isGroup ||
+      Object.keys(formDefinition.inputs).some((k) =>
+        k.startsWith(`${name}[].`)
+      ),
+    `useFieldArray() could not find a corresponding definition for "${name}"`
+  );
+
+  let serverFormInfo = opts.serverFormInfo || ctx?.serverFormInfo;
+  let { minItems = 0, maxItems = Infinity } =
+    formDefinition.fieldArrays?.[name] || {};
+  let nextKey = React.useRef(0);
+  let createRow = (serverIndex?: number): FieldArrayRow => ({
+    key: `${name}-${nextKey.current++}`,
+    serverIndex,
+  });
+  let getServerRows = (prevRows: FieldArrayRow[]) => {
+    let serverRows = serverFormInfo
+      ? getPath(serverFormInfo.inputs, name)
+      : undefined;
+    let serverCount = Array.isArray(serverRows) ? serverRows.length : 0;
+    return Array.from(
+      { length: Math.max(serverCount, minItems) },
+      (_, i): FieldArrayRow => ({
+        ...(prevRows[i] || createRow()),
+        serverIndex: i < serverCount ? i : undefined,
+      })
+    );
+  };
+
+  let [rows, setRows] = React.useState(() => getServerRows([]));
+
+  // Realign rows with a new server submission
+  let [prevServerFormInfo, setPrevServerFormInfo] =
+    React.useState(serverFormInfo);
+  if (prevServerFormInfo !== serverFormInfo) {
+    setPrevServerFormInfo(serverFormInfo);
+    setRows(getServerRows(rows));
+  }
+
+  // Let the rows' controls know where to find their server results.  Until
+  // then (i.e., on the initial render) rows are assumed to be in server order.
+  let setFieldArray = ctx?.setFieldArray;
+  let serverIndexes = JSON.stringify(
+    rows.map((row) => row.serverIndex ?? null)
+  );
+  useIsomorphicLayoutEffect(() => {
+    setFieldArray?.(
+      name,
+      (JSON.parse(serverIndexes) as Array<number | null>).map(
+        (i) => i ?? undefined
+      )
+    );
+  }, [name, serverIndexes, setFieldArray]);
+  useIsomorphicLayoutEffect(
+    () => () => setFieldArray?.(name, undefined),
+    [name, setFieldArray]
+  );
+
+  function append() {
+    setRows((rows) =>
+      rows.length >= maxItems ? rows : [...rows, createRow()]
+    );
+  }
+
+  function remove(index: number) {
+    setRows((rows) =>
+      rows.length <= minItems ? rows : rows.filter((_, i) => i !== index)
+    );
+  }
+
+  function move(from: number, to: number) {
+    setRows((rows) => {
+      if (
+        from < 0 ||
+        from >= rows.length ||
+        to < 0 ||
+        to >= rows.length ||
+        from === to
+      ) {
+        return rows;
+      }
+      let next = [...rows];
+      let [row] = next.splice(from, 1);
+      if (row) {
+        next.splice(to, 0, row);
+      }
+      return next;
+    });
+  }
+
+  let fields: FieldArrayField[] = rows.map((row, index) => ({
+    key: row.key,
+    index,
+    name: isGroup ? `${name}[${index}]` : name,
+  }));
+
+  return {
+    fields,
+    append,
+    remove,
+    move,
+    canAppend: rows.length < maxItems,
+    canRemove: rows.length > minItems,
+  };
+}
+
 export interface ControlWrapperProps<T extends FormDefinition>
   extends React.PropsWithChildren<{
     name: string;
@@ -1397,9 +4799,7 @@ function ControlWrapper<T extends FormDefinition>({
 
   // Not all input types can have a required attribute
   let validationAttrs =
-    formDefinition.inputs[name] && formDefinition.inputs[name].validationAttrs
-      ? formDefinition.inputs[name].validationAttrs
-      : null;
+    getInputDefinition(formDefinition, name)?.validationAttrs || null;
   let isRequired =
     validationAttrs && "required" in validationAttrs
       ? validationAttrs.required === true
@@ -1418,6 +4818,7 @@ function ControlWrapper<T extends FormDefinition>({
       {children}
       {/* Display validation state */}
       {showErrors ? <ControlErrors info={info} {...errorAttrs} /> : null}
+      {showErrors ? <ControlWarnings info={info} /> : null}
     </>
   );
 }
@@ -1439,6 +4840,13 @@ function ControlErrors({ info, ...attrs }: ControlErrorsProps) {
   return <Errors {...attrs} messages={info.errorMessages} />;
 }
 
+function ControlWarnings({ info }: { info: InputInfo }) {
+  if (info.state === "idle" || info.state === "validating") {
+    return null;
+  }
+  return <Warnings className="rvs-warnings" messages={info.warnings} />;
+}
+
 export interface InputProps<T extends FormDefinition>
   extends UseValidatedInputOpts<T>,
     Omit<React.ComponentPropsWithoutRef<"input">, "name"> {
@@ -1471,20 +4879,7 @@ export function Input<T extends FormDefinition>({
       serverFormInfo={serverFormInfo}
       info={info}
     >
-      <input
-        {...getInputAttrs({
-          defaultValue: getInputDefaultValue(
-            name,
-            (
-              formDefinition?.inputs[name]
-                .validationAttrs as InputValidationAttrs
-            ).type,
-            serverFormInfo,
-            index
-          ),
-          ...inputAttrs,
-        })}
-      />
+      <input {...getInputAttrs(inputAttrs)} />
     </ControlWrapper>
   );
 }
@@ -1521,17 +4916,7 @@ export function TextArea<T extends FormDefinition>({
       serverFormInfo={serverFormInfo}
       info={info}
     >
-      <textarea
-        {...getTextAreaAttrs({
-          defaultValue: getInputDefaultValue(
-            name,
-            undefined,
-            serverFormInfo,
-            index
-          ),
-          ...inputAttrs,
-        })}
-      />
+      <textarea {...getTextAreaAttrs(inputAttrs)} />
     </ControlWrapper>
   );
 }
@@ -1569,19 +4954,7 @@ export function Select<T extends FormDefinition>({
       serverFormInfo={serverFormInfo}
       info={info}
     >
-      <select
-        {...getSelectAttrs({
-          defaultValue: getInputDefaultValue(
-            name,
-            undefined,
-            serverFormInfo,
-            index
-          ),
-          ...inputAttrs,
-        })}
-      >
-        {children}
-      </select>
+      <select {...getSelectAttrs(inputAttrs)}>{children}</select>
     </ControlWrapper>
   );
 }
@@ -1604,4 +4977,25 @@ export function Errors({ id, messages, ...attrs }: ErrorProps) {
     </ul>
   );
 }
+
+export interface WarningProps {
+  id?: string;
+  className?: string;
+  messages?: Record<string, string>;
+}
+
+// Display warnings for a given input.  Unlike errors, warnings are announced
+// politely since they don't prevent submission
+export function Warnings({ id, messages, ...attrs }: WarningProps) {
+  if (!messages || Object.keys(messages).length === 0) {
+    return null;
+  }
+  return (
+    <ul {...attrs} id={id} role="status">
+      {Object.entries(messages).map(([validation, message]) => (
+        <li key={validation}>{`⚠️ ${message}`}</li>
+      ))}
+    </ul>
+  );
+}
 //#endregion
@@ -0,0 +1,97 @@
+const assert = require("node:assert/strict");
+const { describe, it } = require("node:test");
+const React = require("react");
+const { renderToString } = require("react-dom/server");
+
+const {
+  FormProvider,
+  Input,
+  validateServerFormData,
+} = require("../dist/remix-validity-state.cjs.js");
+
+function renderForm(formDefinition, serverFormInfo, inputs, opts) {
+  return renderToString(
+    React.createElement(
+      FormProvider,
+      { formDefinition, serverFormInfo, ...opts },
+      inputs.map((props) =>
+        React.createElement(Input, { key: JSON.stringify(props), ...props })
+      )
+    )
+  );
+}
+
+function getErrors(html) {
+  return Array.from(html.matchAll(/<li>🆘 ([^<]*)<\/li>/g), (m) => m[1]);
+}
+
+describe("hydration", () => {
+  it("doesn't render errors without a submission", () => {
+    let html = renderForm(
+      { inputs: { name: { validationAttrs: { required: true } } } },
+      undefined,
+      [{ name: "name" }]
+    );
+    assert.deepEqual(getErrors(html), []);
+    assert.doesNotMatch(html, /aria-invalid/);
+  });
+
+  it("restores submitted values and server errors", async () => {
+    let formDefinition = {
+      inputs: {
+        name: { validationAttrs: { required: true, minLength: 3 } },
+        agree: { validationAttrs: { type: "checkbox", required: true } },
+      },
+    };
+    let formData = new FormData();
+    formData.set("name", "ab");
+    let serverFormInfo = await validateServerFormData(formData, formDefinition);
+    let html = renderForm(formDefinition, serverFormInfo, [
+      { name: "name" },
+      { name: "agree", value: "yes" },
+    ]);
+    assert.match(html, /value="ab"/);
+    assert.deepEqual(getErrors(html), [
+      "Value must be at least 3 characters",
+      "Field is required",
+    ]);
+  });
+
+  it("restores repeated rows by index", async () => {
+    let formDefinition = {
+      inputs: {
+        "items[].qty": { validationAttrs: { type: "number", min: 1 } },
+      },
+    };
+    let formData = new FormData();
+    formData.set("items[0].qty", "2");
+    formData.set("items[1].qty", "0");
+    let serverFormInfo = await validateServerFormData(formData, formDefinition);
+    let html = renderForm(formDefinition, serverFormInfo, [
+      { name: "items[1].qty" },
+    ]);
+    assert.match(html, /value="0"/);
+    assert.deepEqual(getErrors(html), [
+      "Value must be greater than or equal to 1",
+    ]);
+  });
+
+  it("reuses the messages resolved on the server", async () => {
+    let formDefinition = {
+      inputs: { name: { validationAttrs: { minLength: 1000 } } },
+    };
+    let messages = { fr: { messages: { tooShort: "Au moins {attr}" } } };
+    let formData = new FormData();
+    formData.set("name", "abc");
+    let serverFormInfo = await validateServerFormData(
+      formData,
+      formDefinition,
+      undefined,
+      { locale: "fr", messages }
+    );
+    let html = renderForm(formDefinition, serverFormInfo, [{ name: "name" }]);
+    assert.deepEqual(getErrors(html), [
+      `Au moins ${new Intl.NumberFormat("fr").format(1000)}`,
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+const assert = require("node:assert/strict");
+const { describe, it } = require("node:test");
+
+const {
+  addServerError,
+  validateServerFormData,
+} = require("../dist/remix-validity-state.cjs.js");
+
+function getFormData(entries) {
+  let formData = new FormData();
+  for (let [name, value] of entries) {
+    formData.append(name, value);
+  }
+  return formData;
+}
+
+async function validateValue(validationAttrs, value) {
+  let serverFormInfo = await validateServerFormData(
+    getFormData([["x", value]]),
+    { inputs: { x: { validationAttrs } } }
+  );
+  return serverFormInfo.inputs.x.validity;
+}
+
+describe("step/min/max", () => {
+  it("aligns decimal steps without floating point error", async () => {
+    let attrs = { type: "number", step: 0.1 };
+    assert.equal((await validateValue(attrs, "0.3")).stepMismatch, false);
+    assert.equal((await validateValue(attrs, "0.35")).stepMismatch, true);
+    assert.equal(
+      (await validateValue({ type: "number", step: 1e-7 }, "1e-7"))
+        .stepMismatch,
+      false
+    );
+  });
+
+  it("steps from min", async () => {
+    let attrs = { type: "number", step: 0.2, min: "0.1" };
+    assert.equal((await validateValue(attrs, "1.7")).stepMismatch, false);
+    assert.equal((await validateValue(attrs, "1.8")).stepMismatch, true);
+  });
+
+  it("doesn't treat large values near a step as aligned", async () => {
+    let attrs = { type: "number", step: 1 };
+    assert.equal(
+      (await validateValue(attrs, "10000000000.5")).stepMismatch,
+      true
+    );
+    assert.equal(
+      (await validateValue(attrs, "10000000000")).stepMismatch,
+      false
+    );
+  });
+
+  it("validates date and time steps in their own units", async () => {
+    assert.equal(
+      (
+        await validateValue(
+          { type: "datetime-local", step: 60 },
+          "2024-01-01T10:00:01"
+        )
+      ).stepMismatch,
+      true
+    );
+    assert.equal(
+      (await validateValue({ type: "time", step: 0.5 }, "10:00:00.5"))
+        .stepMismatch,
+      false
+    );
+  });
+
+  it("validates numeric and date ranges", async () => {
+    let attrs = { type: "number", min: 1, max: 10 };
+    assert.equal((await validateValue(attrs, "0")).rangeUnderflow, true);
+    assert.equal((await validateValue(attrs, "11")).rangeOverflow, true);
+    assert.equal((await validateValue(attrs, "10")).valid, true);
+    let dateAttrs = { type: "date", min: "2024-03-05" };
+    assert.equal(
+      (await validateValue(dateAttrs, "2024-03-04")).rangeUnderflow,
+      true
+    );
+    assert.equal((await validateValue(dateAttrs, "2024-03-05")).valid, true);
+  });
+
+  it("skips range and step validations for empty values", async () => {
+    let validity = await validateValue({ type: "number", min: 1, step: 2 }, "");
+    assert.equal(validity.valid, true);
+  });
+});
+
+describe("server parsing", () => {
+  it("parses values by input type", async () => {
+    let serverFormInfo = await validateServerFormData(
+      getFormData([
+        ["age", "42"],
+        ["colors", "red"],
+        ["colors", "blue"],
+        ["agree", "on"],
+      ]),
+      {
+        inputs: {
+          age: { validationAttrs: { type: "number" } },
+          colors: { validationAttrs: { type: "checkbox" } },
+          agree: { multiple: false, validationAttrs: { type: "checkbox" } },
+          optOut: { multiple: false, validationAttrs: { type: "checkbox" } },
+        },
+      }
+    );
+    assert.deepEqual(serverFormInfo.parsedValues, {
+      age: 42,
+      colors: ["red", "blue"],
+      agree: true,
+      optOut: false,
+    });
+  });
+
+  it("nests repeated inputs for every submitted row", async () => {
+    let serverFormInfo = await validateServerFormData(
+      getFormData([
+        ["items[0].name", "a"],
+        ["items[0].qty", "1"],
+        ["items[1].name", "b"],
+        ["items[1].qty", "0"],
+        ["tags[]", "x"],
+      ]),
+      {
+        inputs: {
+          "items[].name": {},
+          "items[].qty": { validationAttrs: { type: "number", min: 1 } },
+          "tags[]": {},
+        },
+      }
+    );
+    assert.deepEqual(serverFormInfo.submittedValues, {
+      items: [
+        { name: "a", qty: "1" },
+        { name: "b", qty: "0" },
+      ],
+      "tags[]": "x",
+    });
+    assert.equal(
+      serverFormInfo.inputs.items[1].qty.validity.rangeUnderflow,
+      true
+    );
+    assert.equal(serverFormInfo.valid, false);
+  });
+
+  it("doesn't validate skipped inputs", async () => {
+    let serverFormInfo = await validateServerFormData(
+      getFormData([["shipping", "pickup"]]),
+      {
+        inputs: {
+          shipping: {},
+          address: {
+            validationAttrs: { required: true },
+            when: (formData) => formData.get("shipping") !== "pickup",
+          },
+        },
+      }
+    );
+    assert.equal(serverFormInfo.inputs.address.state, "skipped");
+    assert.equal(serverFormInfo.valid, true);
+  });
+
+  it("checks field array row counts", async () => {
+    let serverFormInfo = await validateServerFormData(
+      getFormData([["emails", "a@example.com"]]),
+      {
+        inputs: { emails: { multiple: true } },
+        fieldArrays: { emails: { minItems: 2 } },
+      }
+    );
+    assert.equal(serverFormInfo.valid, false);
+    assert.equal(serverFormInfo.formValidity["emails.minItems"], true);
+    assert.equal(
+      serverFormInfo.formErrorMessages["emails.minItems"],
+      "At least 2 items are required"
+    );
+  });
+
+  it("attaches errors to submitted inputs", async () => {
+    let serverFormInfo = await validateServerFormData(
+      getFormData([["email", "a@example.com"]]),
+      { inputs: { email: {} } }
+    );
+    let withError = addServerError(
+      serverFormInfo,
+      "email",
+      "taken",
+      "Email is taken"
+    );
+    assert.equal(withError.valid, false);
+    assert.deepEqual(withError.inputs.email.errorMessages, {
+      taken: "Email is taken",
+    });
+    assert.throws(() => addServerError(serverFormInfo, "nope", "x", "X"));
+  });
+});